@@ -0,0 +1,8 @@
+// Local chain for development and the chain tests. Contracts are deployed from bytecode, nothing is compiled.
+module.exports = {
+  networks: {
+    hardhat: {
+      chainId: 31337,
+    },
+  },
+};
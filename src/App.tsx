@@ -1,160 +1,301 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useReducer } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { http, createConfig } from "wagmi";
-import {
-  Chain,
-  mainnet,
-  sepolia,
-  hardhat,
-  polygon,
-  gnosis,
-  optimism,
-} from "wagmi/chains";
-import { injected, walletConnect } from "wagmi/connectors";
 import { WagmiProvider } from "wagmi";
-import { authService } from "./services/silk/authService";
-import { xmtpService } from "./services/xmtp/xmtpService";
+import { wagmiConfig } from "./services/silk/wagmiConfig";
 import { XmtpMessage } from "./services/xmtp/xmtpService";
+import { mergeMessages } from "./services/xmtp/transcript";
+import { DEMO_USER_ADDRESS } from "./services/demo/demoModeService";
+import {
+  transition,
+  initialOnboardingState,
+  getOnboardingAddress,
+} from "./services/onboarding/onboardingMachine";
 import Header from "./components/Header";
 import ConnectButton from "./components/ConnectButton";
 import AudioRecorder from "./components/AudioRecorder";
-import MessageDisplay from "./components/MessageDisplay";
-
-const defaultChains: Chain[] = [mainnet, polygon, gnosis, sepolia, optimism];
-
-if (process.env.NODE_ENV == "development") {
-  defaultChains.push(hardhat);
-}
-
-const wagmiConfig = createConfig({
-  chains: defaultChains as any as readonly [Chain, ...Chain[]],
-  transports: {
-    [mainnet.id]: http(),
-    [sepolia.id]: http(),
-    [polygon.id]: http(),
-    [gnosis.id]: http(),
-    [optimism.id]: http(),
-  },
-  connectors: [
-    injected(),
-    walletConnect({
-      projectId: process.env.VITE_WALLETCONNECT_PROJECT_ID || "",
-    }),
-  ],
-});
+import TextComposer from "./components/TextComposer";
+import ChatTranscript from "./components/ChatTranscript";
+import { Button } from "./components/ui/button";
+import { useServices } from "./context/ScarlettProvider";
+import { useAuth } from "./hooks/useAuth";
+import { useOutbox } from "./hooks/useOutbox";
+import { readActivePersona, readPersonas } from "./hooks/usePersonas";
 
 function App() {
   const [queryClient] = useState(() => new QueryClient());
-  const [isAuthConnected, setIsAuthConnected] = useState(false);
-  const [isXmtpConnected, setIsXmtpConnected] = useState(false);
-  const [userAddress, setUserAddress] = useState("");
-  const [currentMessage, setCurrentMessage] = useState<XmtpMessage | null>(null);
+  // Long-lived callbacks call the services directly; rendering follows the hooks
+  const services = useServices();
+  const auth = useAuth();
+  const [onboarding, dispatch] = useReducer(transition, initialOnboardingState);
+  const [messagesByPersona, setMessagesByPersona] = useState<Record<string, XmtpMessage[]>>({});
+  const [autoPlayMessageId, setAutoPlayMessageId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const outbox = useOutbox();
+  const [activePersona, setActivePersona] = useState(() => readActivePersona(services.personas));
   const [error, setError] = useState<string | null>(null);
-  const [isInitializing, setIsInitializing] = useState(true);
+  // Read by message listeners, which outlive the render they were created in
+  const activePersonaIdRef = useRef<string | null>(activePersona?.id ?? null);
+  const loadedHistoryRef = useRef<Set<string>>(new Set());
+  const replyTimeoutRef = useRef<number | null>(null);
+  
+  const messages = activePersona ? messagesByPersona[activePersona.id] ?? [] : [];
+  const userAddress = getOnboardingAddress(onboarding) ?? "";
 
   // Check if already connected on mount
   useEffect(() => {
     console.log("[App] Component mounted, checking connection status");
     
     const initializeAuth = async () => {
+      // Demo mode skips the wallet and talks to the simulated tutor
+      if (services.demoMode.isEnabled()) {
+        console.log("[App] Demo mode enabled, skipping wallet connection");
+        dispatch({ type: "START_DEMO", address: DEMO_USER_ADDRESS });
+        return;
+      }
+      
       try {
         // Wait for auth service to initialize
         console.log("[App] Waiting for auth service to initialize");
-        await authService.waitForInitialization();
+        await services.auth.waitForInitialization();
         console.log("[App] Auth service initialization complete");
-        
-        // Now check connection status
-        if (authService.isConnected()) {
-          const address = authService.getUserAddress();
-          console.log(`[App] Auth already connected with address: ${address}`);
-          setIsAuthConnected(true);
-          setUserAddress(address);
-        } else {
-          console.log("[App] Auth not connected");
-        }
-        
-        if (xmtpService.isConnected()) {
-          console.log("[App] XMTP already connected");
-          setIsXmtpConnected(true);
-        } else {
-          console.log("[App] XMTP not connected");
-        }
       } catch (error) {
         console.error("[App] Error during initialization:", error);
-      } finally {
-        setIsInitializing(false);
+      }
+      
+      const { isConnected, address } = services.auth.getState();
+      dispatch({ type: "INITIALIZED", address: isConnected ? address : undefined });
+      
+      if (isConnected) {
+        await reconnectIfKeyStored(address);
       }
     };
     
     initializeAuth();
   }, []);
   
-  // Handle auth success
-  const handleAuthSuccess = (address: string) => {
-    console.log(`[App] Auth success callback with address: ${address}`);
-    setIsAuthConnected(true);
-    setUserAddress(address);
+  // A wallet that already has an installation key here reconnects to the tutor right away. After a
+  // reload the wallet is asked once to unlock the key, which is only kept in memory.
+  const reconnectIfKeyStored = async (address: string) => {
+    if (await services.keyStorage.hasStoredKey(address)) {
+      console.log("[App] Found a stored installation key, reconnecting to the tutor");
+      dispatch({ type: "CONNECT_XMTP" });
+    }
   };
   
-  // Handle XMTP success
-  const handleXmtpSuccess = () => {
-    console.log("[App] XMTP success callback");
-    setIsXmtpConnected(true);
+  // Connect to the tutor whenever onboarding reaches that step
+  useEffect(() => {
+    if (onboarding.status !== "xmtpConnecting") return;
+    
+    console.log("[App] Connecting to the tutor");
+    services.tutor.connect()
+      .then((result) => {
+        dispatch(result.success
+          ? { type: "XMTP_CONNECTED" }
+          : { type: "XMTP_FAILED", error: result.error || "Failed to connect to the tutor", keyUnlockFailed: result.keyUnlockFailed });
+      })
+      .catch((error) => {
+        console.error("[App] Error connecting to the tutor:", error);
+        dispatch({ type: "XMTP_FAILED", error: "An unexpected error occurred" });
+      });
+  }, [onboarding.status]);
+  
+  // Start the conversations once onboarding is done
+  useEffect(() => {
+    if (onboarding.status === "ready") {
+      handleXmtpSuccess();
+    }
+  }, [onboarding.status]);
+  
+  // The wallet switched accounts or disconnected outside of the app: the tutor connection
+  // belongs to the old account, so drop it and onboard the new one, or reconnect it right away
+  useEffect(() => {
+    if (!auth.isInitialized || services.demoMode.isEnabled()) return;
+    
+    const address = auth.isConnected ? auth.address : undefined;
+    const previousAddress = getOnboardingAddress(onboarding);
+    if (previousAddress === undefined || previousAddress === address) return;
+    
+    console.log(`[App] Wallet changed from ${previousAddress} to ${address ?? "none"}`);
+    resetConversation();
+    dispatch({ type: "WALLET_CHANGED", address });
+    if (address) {
+      reconnectIfKeyStored(address);
+    }
+  }, [auth.isInitialized, auth.isConnected, auth.address]);
+  
+  // Follow tutor messages for every persona. Registered once, so the handlers only read refs.
+  useEffect(() => {
+    const handleMessage = (message: XmtpMessage) => {
+      const personaId = message.personaId;
+      if (!personaId) return;
+      
+      console.log(`[App] New message received for ${personaId}:`, message.id);
+      addMessages(personaId, [message]);
+      
+      // Turn off loading and play the reply when the selected tutor answers
+      if (message.isFromBot && personaId === activePersonaIdRef.current) {
+        console.log("[App] Turning off loading state due to tutor reply");
+        setAutoPlayMessageId(message.id);
+        stopWaitingForReply();
+      }
+    };
     
-    // Start listening for messages
-    console.log("[App] Starting XMTP message listener");
-    xmtpService.startMessageListener((message) => {
-      console.log("[App] New message received from listener:", message.id);
-      setCurrentMessage(message);
+    const unsubscribes = [
+      services.tutor.on("message", handleMessage),
+      services.tutor.on("messageUpdated", handleMessage),
+      services.tutor.on("error", ({ message }) => handleError(message)),
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [services.tutor]);
+  
+  // Follow the persona picker and configuration changes made in the settings
+  useEffect(() => {
+    return services.personas.subscribe(persona => {
+      setActivePersona(persona);
+      if (persona.id === activePersonaIdRef.current) return;
       
-      // Always turn off loading when we receive any message
-      if (isLoading) {
-        console.log("[App] Turning off loading state due to received message");
-        setIsLoading(false);
+      console.log(`[App] Switched to persona ${persona.id}`);
+      activePersonaIdRef.current = persona.id;
+      setAutoPlayMessageId(null);
+      stopWaitingForReply();
+      setHasMoreHistory(services.tutor.hasMoreHistory(persona.id));
+      
+      // History for each persona is loaded the first time it is opened
+      if (services.tutor.getState().isConnected && !loadedHistoryRef.current.has(persona.id)) {
+        loadPersonaHistory(persona.id);
       }
     });
+  }, []);
+  
+  // Start the conversations after connecting to the tutor
+  const handleXmtpSuccess = () => {
+    console.log("[App] XMTP success callback");
+    
+    // Restore and resend recordings that were not sent yet
+    services.outbox.start(services.tutor.getUserAddress());
+    
+    // Listen to every persona so replies are not missed while another tutor is selected
+    console.log("[App] Starting tutor message listeners");
+    for (const persona of readPersonas(services.personas)) {
+      services.tutor.startListening(persona.id);
+    }
+    
+    if (activePersonaIdRef.current) {
+      loadPersonaHistory(activePersonaIdRef.current);
+    }
+  };
+  
+  // Merge messages into the transcript of a persona
+  const addMessages = (personaId: string, newMessages: XmtpMessage[]) => {
+    setMessagesByPersona(prev => ({
+      ...prev,
+      [personaId]: mergeMessages(prev[personaId] ?? [], newMessages),
+    }));
+  };
+  
+  // Load the most recent history of a persona
+  const loadPersonaHistory = (personaId: string) => {
+    console.log(`[App] Loading conversation history for ${personaId}`);
+    loadedHistoryRef.current.add(personaId);
     
-    // Load conversation history
-    console.log("[App] Loading conversation history");
-    xmtpService.loadConversationWithBot().then((messages) => {
+    services.tutor.loadHistory(personaId).then((messages) => {
       console.log(`[App] Loaded ${messages.length} messages from history`);
       if (messages.length > 0) {
-        console.log("[App] Setting current message from history");
-        setCurrentMessage(messages[messages.length - 1]);
-        setIsLoading(false);
+        console.log("[App] Merging history into transcript");
+        addMessages(personaId, messages);
+      }
+      if (personaId === activePersonaIdRef.current) {
+        if (messages.length > 0) {
+          setIsLoading(false);
+        }
+        setHasMoreHistory(services.tutor.hasMoreHistory(personaId));
       }
     });
   };
   
+  // Switch to demo mode from the connect screen
+  const handleStartDemo = () => {
+    services.demoMode.enable();
+    dispatch({ type: "START_DEMO", address: DEMO_USER_ADDRESS });
+  };
+  
+  // Load an older page of history when the transcript is scrolled to the top
+  const handleLoadOlder = async () => {
+    const personaId = activePersonaIdRef.current;
+    if (!personaId) return;
+    
+    setIsLoadingOlder(true);
+    
+    try {
+      const olderMessages = await services.tutor.loadOlderHistory(personaId);
+      console.log(`[App] Loaded ${olderMessages.length} older messages`);
+      addMessages(personaId, olderMessages);
+      if (personaId === activePersonaIdRef.current) {
+        setHasMoreHistory(services.tutor.hasMoreHistory(personaId));
+      }
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+  
+  // Disconnect from the tutor and forget the conversations
+  const resetConversation = () => {
+    services.outbox.stop();
+    services.tutor.disconnect();
+    setMessagesByPersona({});
+    loadedHistoryRef.current.clear();
+    setAutoPlayMessageId(null);
+    setHasMoreHistory(false);
+    stopWaitingForReply();
+  };
+  
   // Handle logout
   const handleLogout = () => {
     console.log("[App] Logout handler called");
-    authService.disconnect();
-    xmtpService.disconnect();
-    setIsAuthConnected(false);
-    setIsXmtpConnected(false);
-    setUserAddress("");
-    setCurrentMessage(null);
+    resetConversation();
+    services.demoMode.disable();
+    services.auth.disconnect();
+    dispatch({ type: "LOGOUT" });
     console.log("[App] Logout complete");
   };
   
+  // Handle settings saved: the bot or network may have changed, so reconnect to XMTP
+  const handleSettingsChanged = () => {
+    console.log("[App] Settings changed, disconnecting XMTP");
+    setActivePersona(readActivePersona(services.personas));
+    resetConversation();
+    dispatch({ type: "SETTINGS_CHANGED" });
+  };
+  
   // Handle message sent
   const handleMessageSent = () => {
     console.log("[App] Message sent handler called");
-    setCurrentMessage(null);
     setIsLoading(true);
     
-    // Safety timeout to clear loading state in case we don't receive a response
-    setTimeout(() => {
-      if (isLoading) {
-        console.log("[App] Safety timeout: clearing loading state after 30 seconds");
-        setIsLoading(false);
-        setError("No response received in 30 seconds. Please try again.");
-      }
+    // Safety timeout to clear loading state in case we don't receive a response.
+    // Each message restarts it and the reply clears it.
+    if (replyTimeoutRef.current !== null) {
+      window.clearTimeout(replyTimeoutRef.current);
+    }
+    replyTimeoutRef.current = window.setTimeout(() => {
+      replyTimeoutRef.current = null;
+      console.log("[App] Safety timeout: clearing loading state after 30 seconds");
+      setIsLoading(false);
+      setError("No response received in 30 seconds. Please try again.");
     }, 30000);
   };
   
+  // Stop waiting for a tutor reply
+  const stopWaitingForReply = () => {
+    if (replyTimeoutRef.current !== null) {
+      window.clearTimeout(replyTimeoutRef.current);
+      replyTimeoutRef.current = null;
+    }
+    setIsLoading(false);
+  };
+  
   // Handle error
   const handleError = (errorMessage: string) => {
     console.error(`[App] Error handler called: ${errorMessage}`);
@@ -167,36 +308,53 @@ function App() {
     }, 5000);
   };
 
-  console.log(`[App] Rendering with isAuthConnected: ${isAuthConnected}, isXmtpConnected: ${isXmtpConnected}, isInitializing: ${isInitializing}`);
+  console.log(`[App] Rendering in onboarding state: ${onboarding.status}`);
 
   return (
     <WagmiProvider config={wagmiConfig}>
       <QueryClientProvider client={queryClient}>
         <div className="min-h-screen bg-neutral-800 text-white flex flex-col overflow-x-hidden">
           <Header 
-            isConnected={isAuthConnected} 
+            isConnected={!!userAddress} 
             address={userAddress} 
             onLogout={handleLogout} 
+            onSettingsChanged={handleSettingsChanged} 
           />
           
           <main className="flex-1 flex flex-col items-center justify-center p-4 w-full max-w-full">
-            {isInitializing ? (
+            {onboarding.status === "initializing" ? (
               <div className="flex flex-col items-center justify-center h-full">
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
                 <p className="mt-4 text-gray-400">Initializing...</p>
               </div>
-            ) : !isAuthConnected || !isXmtpConnected ? (
+            ) : onboarding.status !== "ready" ? (
               <div className="flex flex-col items-center justify-center h-full w-full">
                 <h1 className="text-2xl sm:text-3xl font-bold mb-8 text-white text-center px-4">Voice Chat App</h1>
-                <ConnectButton 
-                  onAuthSuccess={handleAuthSuccess} 
-                  onXmtpSuccess={handleXmtpSuccess} 
-                />
+                <ConnectButton state={onboarding} dispatch={dispatch} />
+                {(onboarding.status === "walletNeeded" || onboarding.status === "error") && (
+                  <Button variant="ghost" className="mt-4 text-gray-300" onClick={handleStartDemo}>
+                    Try the demo without a wallet
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="w-full max-w-full flex flex-col items-center">
-                <MessageDisplay message={currentMessage} isLoading={isLoading} />
-                <AudioRecorder onMessageSent={handleMessageSent} onError={handleError} />
+                <ChatTranscript 
+                  messages={messages} 
+                  isLoading={isLoading} 
+                  autoPlayMessageId={autoPlayMessageId} 
+                  botDisplayName={activePersona?.name} 
+                  hasMoreHistory={hasMoreHistory} 
+                  isLoadingOlder={isLoadingOlder} 
+                  onLoadOlder={handleLoadOlder} 
+                  outboxItems={outbox.items.filter(item => item.personaId === activePersona?.id)} 
+                  onRetryOutboxItem={outbox.retry} 
+                  onDiscardOutboxItem={outbox.discard} 
+                />
+                <div className="fixed bottom-4 left-0 right-0 flex items-center justify-center gap-3 px-4">
+                  <TextComposer onMessageSent={handleMessageSent} onError={handleError} />
+                  <AudioRecorder onMessageSent={handleMessageSent} onError={handleError} />
+                </div>
               </div>
             )}
             
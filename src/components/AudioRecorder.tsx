@@ -1,16 +1,25 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Button } from './ui/button';
 import { Microphone } from '@phosphor-icons/react';
-import { audioRecorderService } from '../services/audio/audioRecorderService';
-import { xmtpService } from '../services/xmtp/xmtpService';
+import { useRecorder } from '../hooks/useRecorder';
+import { useEntitlements } from '../hooks/useEntitlements';
+import { useOutbox } from '../hooks/useOutbox';
 
 interface AudioRecorderProps {
   onMessageSent: () => void;
   onError: (error: string) => void;
 }
 
+// Check if a key event comes from a field the learner is typing into
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable;
+};
+
 const AudioRecorder: React.FC<AudioRecorderProps> = ({ onMessageSent, onError }) => {
-  const [isRecording, setIsRecording] = useState(false);
+  const { isRecording, isSupported, startRecording: startRecorder, stopRecording: stopRecorder } = useRecorder();
+  const { limits, voiceTurnsRemaining, checkVoiceTurn } = useEntitlements();
+  const { enqueue } = useOutbox();
   const [isSending, setIsSending] = useState(false);
   const [isDesktop, setIsDesktop] = useState(true);
   
@@ -29,64 +38,75 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onMessageSent, onError })
     };
   }, []);
   
-  // Check if audio recording is supported
+  // Check if audio recording is supported. The recorder hook releases the microphone on unmount.
   useEffect(() => {
-    if (!audioRecorderService.isSupported()) {
+    if (!isSupported) {
       onError('Audio recording is not supported in this browser');
     }
-    
-    // Clean up on unmount
-    return () => {
-      audioRecorderService.cleanup();
-    };
-  }, [onError]);
+  }, [isSupported, onError]);
   
   // Start recording
   const startRecording = useCallback(async () => {
-    const result = await audioRecorderService.startRecording();
+    // Do not let the learner record a message the plan does not allow sending
+    const allowed = checkVoiceTurn();
+    if (!allowed.success) {
+      onError(allowed.error || 'No voice turns left today');
+      return;
+    }
+    
+    const result = await startRecorder();
     
     if (!result.success) {
       onError(result.error || 'Failed to start recording');
-      return;
     }
-    
-    setIsRecording(true);
-  }, [onError]);
+  }, [onError, startRecorder, checkVoiceTurn]);
   
   // Stop recording and send message
   const stopRecording = useCallback(async () => {
-    setIsRecording(false);
-    
-    const result = await audioRecorderService.stopRecording();
-    
-    if (!result.success || !result.audioBlob) {
-      onError(result.error || 'Failed to stop recording');
-      return;
-    }
-    
-    // Send the audio message
+    // Sending starts right away so a second release does not stop the recorder twice
     setIsSending(true);
     
     try {
-      const sendResult = await xmtpService.sendMessage(result.audioBlob);
+      const result = await stopRecorder();
       
-      if (!sendResult.success) {
-        onError(sendResult.error || 'Failed to send message');
+      if (!result.success || !result.audioBlob) {
+        onError(result.error || 'Failed to stop recording');
         return;
       }
       
+      // Queue the audio message. The outbox keeps it and retries if sending fails.
+      await enqueue(result.audioBlob);
       onMessageSent();
     } catch (err) {
-      console.error('Error sending message:', err);
+      console.error('Error queueing message:', err);
       onError('An unexpected error occurred while sending the message');
     } finally {
       setIsSending(false);
     }
-  }, [onError, onMessageSent]);
+  }, [onError, onMessageSent, stopRecorder, enqueue]);
+  
+  // Stop at the longest recording the plan allows, as if the learner had let go
+  useEffect(() => {
+    if (!isRecording || isSending) return;
+    
+    const timer = window.setTimeout(() => {
+      console.log(`[AudioRecorder] Reached the ${limits.maxRecordingSeconds}s recording limit`);
+      stopRecording();
+    }, limits.maxRecordingSeconds * 1000);
+    
+    return () => window.clearTimeout(timer);
+  }, [isRecording, isSending, limits.maxRecordingSeconds, stopRecording]);
+  
+  // Handle mouse up for desktop. The recording may already have stopped at the limit.
+  const handleMouseUp = () => {
+    if (isRecording && !isSending) {
+      stopRecording();
+    }
+  };
   
   // Handle key down for desktop (space bar)
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.code === 'Space' && !isRecording && !isSending && isDesktop) {
+    if (e.code === 'Space' && !isRecording && !isSending && isDesktop && !isTypingTarget(e.target)) {
       e.preventDefault();
       startRecording();
     }
@@ -94,11 +114,11 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onMessageSent, onError })
   
   // Handle key up for desktop (space bar)
   const handleKeyUp = useCallback((e: KeyboardEvent) => {
-    if (e.code === 'Space' && isRecording && isDesktop) {
+    if (e.code === 'Space' && isRecording && !isSending && isDesktop) {
       e.preventDefault();
       stopRecording();
     }
-  }, [isRecording, isDesktop, stopRecording]);
+  }, [isRecording, isSending, isDesktop, stopRecording]);
   
   // Add keyboard event listeners for desktop
   useEffect(() => {
@@ -121,18 +141,18 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onMessageSent, onError })
   };
   
   const handleTouchEnd = () => {
-    if (isRecording && !isDesktop) {
+    if (isRecording && !isSending && !isDesktop) {
       stopRecording();
     }
   };
   
   return (
-    <div className="fixed bottom-6 left-0 right-0 flex justify-center">
+    <div className="relative flex justify-center">
       <Button
         size="round-lg"
         className={`shadow-lg ${isRecording ? 'bg-blue-600 hover:bg-blue-700' : 'bg-blue-500 hover:bg-blue-600'}`}
         onMouseDown={isDesktop ? startRecording : undefined}
-        onMouseUp={isDesktop ? stopRecording : undefined}
+        onMouseUp={isDesktop ? handleMouseUp : undefined}
         onTouchStart={handleTouchStart}
         onTouchEnd={handleTouchEnd}
         disabled={isSending}
@@ -144,6 +164,9 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onMessageSent, onError })
           <span className="text-xs text-muted-foreground bg-neutral-800/80 px-3 py-1 rounded-full">
             <span className="hidden sm:inline">Hold space to record</span>
             <span className="inline sm:hidden">Hold to record</span>
+            {voiceTurnsRemaining !== null && (
+              <span> · {voiceTurnsRemaining} left today</span>
+            )}
           </span>
         </div>
       )}
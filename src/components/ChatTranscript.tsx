@@ -0,0 +1,199 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { XmtpMessage } from '../services/xmtp/xmtpService';
+import { formatDateLabel } from '../services/xmtp/transcript';
+import { OutboxItem, OutboxStatus } from '../services/xmtp/outboxService';
+import MessageDisplay from './MessageDisplay';
+
+interface ChatTranscriptProps {
+  messages: XmtpMessage[];
+  isLoading: boolean;
+  autoPlayMessageId?: string | null;
+  botDisplayName?: string;
+  hasMoreHistory?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  outboxItems?: OutboxItem[];
+  onRetryOutboxItem?: (id: string) => void;
+  onDiscardOutboxItem?: (id: string) => void;
+}
+
+const outboxStatusLabels: Record<OutboxStatus, string> = {
+  queued: 'Queued',
+  sending: 'Sending…',
+  sent: 'Sent',
+  failed: 'Failed to send',
+};
+
+// Format the time of day for a message
+const formatTime = (message: XmtpMessage) => {
+  const date = new Date(message.sentAt);
+  if (Number.isNaN(date.getTime())) return '';
+  return date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+};
+
+// A message sent by the learner (usually a voice note)
+const UserMessage: React.FC<{ message: XmtpMessage }> = ({ message }) => (
+  <div className="flex flex-col items-end w-full">
+    <div className="max-w-[85%] bg-blue-600 rounded-lg p-3 shadow-sm overflow-hidden">
+      {message.audioUrl ? (
+        <audio src={message.audioUrl} controls className="max-w-full rounded-lg" />
+      ) : (
+        <p className="text-sm sm:text-base text-white break-words">{message.content}</p>
+      )}
+    </div>
+    <span className="mt-1 text-[10px] text-gray-500">{formatTime(message)}</span>
+  </div>
+);
+
+// A recording waiting in the outbox
+const OutboxMessage: React.FC<{
+  item: OutboxItem;
+  onRetry?: (id: string) => void;
+  onDiscard?: (id: string) => void;
+}> = ({ item, onRetry, onDiscard }) => {
+  const audioUrl = useMemo(() => URL.createObjectURL(item.blob), [item.blob]);
+
+  // Release the object URL when the item goes away
+  useEffect(() => {
+    return () => URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  return (
+    <div className="flex flex-col items-end w-full">
+      <div className={`max-w-[85%] rounded-lg p-3 shadow-sm overflow-hidden ${item.status === 'failed' ? 'bg-red-900/60' : 'bg-blue-600/60'}`}>
+        <audio src={audioUrl} controls className="max-w-full rounded-lg" />
+      </div>
+      <div className="mt-1 flex items-center gap-3 text-[10px] text-gray-400">
+        <span title={item.error}>{outboxStatusLabels[item.status]}</span>
+        {item.status === 'failed' && (
+          <>
+            <button onClick={() => onRetry?.(item.id)} className="hover:text-blue-500 transition-colors">Retry</button>
+            <button onClick={() => onDiscard?.(item.id)} className="hover:text-red-500 transition-colors">Discard</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ChatTranscript: React.FC<ChatTranscriptProps> = ({
+  messages,
+  isLoading,
+  autoPlayMessageId,
+  botDisplayName,
+  hasMoreHistory = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+  outboxItems = [],
+  onRetryOutboxItem,
+  onDiscardOutboxItem,
+}) => {
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+  const previousScrollHeightRef = useRef<number | null>(null);
+  const newestMessageId = messages.length > 0 ? messages[messages.length - 1].id : null;
+
+  // Auto-scroll to the newest turn
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [newestMessageId, isLoading, outboxItems.length]);
+
+  // Keep the visible messages in place when older ones are prepended
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (container && previousScrollHeightRef.current !== null && !isLoadingOlder) {
+      container.scrollTop += container.scrollHeight - previousScrollHeightRef.current;
+      previousScrollHeightRef.current = null;
+    }
+  }, [messages, isLoadingOlder]);
+
+  // Load older messages when the learner scrolls near the top
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container || !onLoadOlder || !hasMoreHistory || isLoadingOlder) return;
+
+    if (container.scrollTop < 80) {
+      previousScrollHeightRef.current = container.scrollHeight;
+      onLoadOlder();
+    }
+  };
+
+  if (messages.length === 0 && outboxItems.length === 0 && !isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-40 mt-16">
+        <p className="text-gray-400">Send a voice message to start a conversation</p>
+      </div>
+    );
+  }
+
+  return (
+    <div 
+      ref={scrollRef} 
+      onScroll={handleScroll} 
+      className="fixed top-16 bottom-28 left-0 right-0 overflow-y-auto px-2 sm:px-4"
+    >
+      <div className="w-full max-w-2xl mx-auto flex flex-col gap-3 py-4">
+        {isLoadingOlder && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+          </div>
+        )}
+        {!hasMoreHistory && messages.length > 0 && (
+          <p className="text-center text-xs text-gray-500 py-2">Beginning of conversation</p>
+        )}
+
+        {messages.map((message, index) => {
+          const dateLabel = formatDateLabel(message);
+          const showSeparator = index === 0 || formatDateLabel(messages[index - 1]) !== dateLabel;
+
+          return (
+            <React.Fragment key={message.id}>
+              {showSeparator && (
+                <div className="flex items-center gap-3 my-2">
+                  <div className="flex-1 border-t border-neutral-600" />
+                  <span className="text-xs text-gray-400">{dateLabel}</span>
+                  <div className="flex-1 border-t border-neutral-600" />
+                </div>
+              )}
+              {message.isFromMe ? (
+                <UserMessage message={message} />
+              ) : (
+                <div className="flex flex-col items-start w-full gap-1">
+                  {message.isFromBot && botDisplayName && (
+                    <span className="text-[10px] text-gray-400">{botDisplayName}</span>
+                  )}
+                  {!message.isFromBot && (
+                    <span className="text-[10px] text-amber-400" title={message.senderAddress}>
+                      Unknown sender
+                    </span>
+                  )}
+                  <MessageDisplay message={message} autoPlay={message.isFromBot && message.id === autoPlayMessageId} />
+                </div>
+              )}
+            </React.Fragment>
+          );
+        })}
+
+        {outboxItems.map(item => (
+          <OutboxMessage 
+            key={item.id} 
+            item={item} 
+            onRetry={onRetryOutboxItem} 
+            onDiscard={onDiscardOutboxItem} 
+          />
+        ))}
+
+        {isLoading && (
+          <div className="flex items-center gap-3 text-gray-400">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+            <p className="text-sm">Waiting for response...</p>
+          </div>
+        )}
+
+        <div ref={bottomRef} />
+      </div>
+    </div>
+  );
+};
+
+export default ChatTranscript;
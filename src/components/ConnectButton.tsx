@@ -1,63 +1,85 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Button } from './ui/button';
-import { authService } from '../services/silk/authService';
-import { xmtpService } from '../services/xmtp/xmtpService';
-import { useConnect } from 'wagmi';
+import LocalAccountPicker from './LocalAccountPicker';
+import { useAuth } from '../hooks/useAuth';
+import { isExternalProvider, type WalletProviderType } from '../services/silk/authService';
+import { useServices } from '../context/ScarlettProvider';
+import type { OnboardingState, OnboardingEvent } from '../services/onboarding/onboardingMachine';
+import { useConnect, ConnectorAlreadyConnectedError } from 'wagmi';
+import { BaseError, UserRejectedRequestError } from 'viem';
 
 interface ConnectButtonProps {
-  onAuthSuccess: (address: string) => void;
-  onXmtpSuccess: () => void;
+  state: OnboardingState;
+  dispatch: (event: OnboardingEvent) => void;
 }
 
-const ConnectButton: React.FC<ConnectButtonProps> = ({ onAuthSuccess, onXmtpSuccess }) => {
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [isAuthConnected, setIsAuthConnected] = useState(false);
-  const { connect, connectors } = useConnect();
+const ConnectButton: React.FC<ConnectButtonProps> = ({ state, dispatch }) => {
+  const auth = useAuth();
+  const { demoMode, keyStorage, config } = useServices();
+  const { connectAsync, connectors } = useConnect();
   
-  // Check if already connected on mount
-  useEffect(() => {
-    console.log("[ConnectButton] Component mounted, checking connection status");
+  // Connect with a wagmi connector, and sign with the provider of the connection it made
+  const connectWithConnector = async (connectorId: string, walletName: string, providerType: WalletProviderType) => {
+    const connector = connectors.find(conn => conn.id === connectorId);
+    console.log(`[ConnectButton] Found ${walletName} connector:`, !!connector);
     
-    const checkConnection = async () => {
-      try {
-        // Wait for auth service to initialize
-        console.log("[ConnectButton] Waiting for auth service to initialize");
-        await authService.waitForInitialization();
-        console.log("[ConnectButton] Auth service initialization complete");
-        
-        // Now check connection status
-        const connected = authService.isConnected();
-        console.log(`[ConnectButton] Initial auth connected status: ${connected}`);
-        
-        if (connected) {
-          const address = authService.getUserAddress();
-          console.log(`[ConnectButton] Already connected with address: ${address}`);
-          setIsAuthConnected(true);
-          onAuthSuccess(address);
-        }
-      } catch (error) {
-        console.error("[ConnectButton] Error checking connection:", error);
+    if (!connector) {
+      console.error(`[ConnectButton] ${walletName} connector not found`);
+      dispatch({ type: 'WALLET_FAILED', error: `${walletName} connector not found` });
+      return;
+    }
+    
+    try {
+      // Resolves once the wallet approved the connection
+      console.log(`[ConnectButton] Connecting with ${walletName} connector`);
+      const connection = await connectAsync({ connector });
+      console.log(`[ConnectButton] ${walletName} connected accounts:`, connection.accounts);
+    } catch (err) {
+      // Still connected from an earlier attempt, e.g. after logging out of the app only
+      if (!(err instanceof ConnectorAlreadyConnectedError)) {
+        console.error(`[ConnectButton] Failed to connect with ${walletName}:`, err);
+        const error = err instanceof BaseError && err.walk(e => e instanceof UserRejectedRequestError)
+          ? 'You rejected the connection request'
+          : `Failed to connect with ${walletName}`;
+        dispatch({ type: 'WALLET_FAILED', error });
+        return;
       }
-    };
+    }
+    
+    const provider = await connector.getProvider();
+    if (!isExternalProvider(provider)) {
+      console.error(`[ConnectButton] ${walletName} connector has no EIP-1193 provider`);
+      dispatch({ type: 'WALLET_FAILED', error: `Failed to connect with ${walletName}` });
+      return;
+    }
+    
+    const authResult = await auth.connectWithProvider(provider, walletName, providerType);
+    console.log(`[ConnectButton] ${walletName} connection result:`, authResult);
     
-    checkConnection();
-  }, [onAuthSuccess]);
+    if (authResult.success && authResult.address) {
+      console.log(`[ConnectButton] Successfully connected with ${walletName}: ${authResult.address}`);
+      dispatch({ type: 'WALLET_CONNECTED', address: authResult.address });
+    } else {
+      console.error(`[ConnectButton] Failed to connect with ${walletName}: ${authResult.error}`);
+      dispatch({ type: 'WALLET_FAILED', error: authResult.error || `Failed to connect with ${walletName}` });
+    }
+  };
   
-  const handleConnectWithSelector = async () => {
+  // Connect a wallet. Starts with CONNECT_WALLET, or RETRY after a failed attempt.
+  const handleConnectWithSelector = async (startEvent: OnboardingEvent = { type: 'CONNECT_WALLET' }) => {
     console.log("[ConnectButton] handleConnectWithSelector called");
-    setIsLoading(true);
-    setError(null);
+    dispatch(startEvent);
+    
+    const setError = (error: string) => dispatch({ type: 'WALLET_FAILED', error });
     
     try {
       // Get the Silk provider
-      const silkProvider = authService.getSilkProvider();
+      const silkProvider = auth.getSilkProvider();
       console.log("[ConnectButton] Got Silk provider:", !!silkProvider);
       
       if (!silkProvider) {
         console.error("[ConnectButton] Silk provider not initialized");
         setError("Silk provider not initialized");
-        setIsLoading(false);
         return;
       }
       
@@ -69,19 +91,17 @@ const ConnectButton: React.FC<ConnectButtonProps> = ({ onAuthSuccess, onXmtpSucc
       if (result === "silk") {
         console.log("[ConnectButton] User selected Silk");
         // User selected Silk
-        // @ts-ignore
         window.ethereum = silkProvider;
         console.log("[ConnectButton] Set window.ethereum to silkProvider");
         
         // Connect with Silk
         console.log("[ConnectButton] Connecting with Silk");
-        const authResult = await authService.connectWithSilk();
+        const authResult = await auth.connectWithSilk();
         console.log("[ConnectButton] Silk connection result:", authResult);
         
         if (authResult.success && authResult.address) {
           console.log(`[ConnectButton] Successfully connected with Silk: ${authResult.address}`);
-          setIsAuthConnected(true);
-          onAuthSuccess(authResult.address);
+          dispatch({ type: 'WALLET_CONNECTED', address: authResult.address });
         } else {
           console.error(`[ConnectButton] Failed to connect with Silk: ${authResult.error}`);
           setError(authResult.error || 'Failed to connect with Silk');
@@ -89,63 +109,10 @@ const ConnectButton: React.FC<ConnectButtonProps> = ({ onAuthSuccess, onXmtpSucc
       } else if (result === "injected") {
         console.log("[ConnectButton] User selected injected wallet");
         // User selected injected wallet (MetaMask, etc.)
-        const injectedConnector = connectors.find(conn => conn.id === "injected");
-        console.log("[ConnectButton] Found injected connector:", !!injectedConnector);
-        
-        if (injectedConnector) {
-          console.log("[ConnectButton] Connecting with injected connector");
-          connect({ connector: injectedConnector });
-          
-          // Wait for connection and get address
-          console.log("[ConnectButton] Waiting for connection (1s timeout)");
-          setTimeout(async () => {
-            console.log("[ConnectButton] Timeout complete, connecting with injected provider");
-            const authResult = await authService.connectWithInjected();
-            console.log("[ConnectButton] Injected connection result:", authResult);
-            
-            if (authResult.success && authResult.address) {
-              console.log(`[ConnectButton] Successfully connected with injected: ${authResult.address}`);
-              setIsAuthConnected(true);
-              onAuthSuccess(authResult.address);
-            } else {
-              console.error(`[ConnectButton] Failed to connect with injected: ${authResult.error}`);
-              setError(authResult.error || 'Failed to connect with injected wallet');
-            }
-          }, 1000);
-        } else {
-          console.error("[ConnectButton] Injected wallet connector not found");
-          setError('Injected wallet connector not found');
-        }
+        await connectWithConnector("injected", "injected wallet", "injected");
       } else if (result === "walletconnect") {
         console.log("[ConnectButton] User selected WalletConnect");
-        // User selected WalletConnect
-        const walletConnectConnector = connectors.find(conn => conn.id === "walletConnect");
-        console.log("[ConnectButton] Found WalletConnect connector:", !!walletConnectConnector);
-        
-        if (walletConnectConnector) {
-          console.log("[ConnectButton] Connecting with WalletConnect connector");
-          connect({ connector: walletConnectConnector });
-          
-          // Wait for connection and get address
-          console.log("[ConnectButton] Waiting for connection (1s timeout)");
-          setTimeout(async () => {
-            console.log("[ConnectButton] Timeout complete, connecting with injected provider");
-            const authResult = await authService.connectWithInjected();
-            console.log("[ConnectButton] WalletConnect connection result:", authResult);
-            
-            if (authResult.success && authResult.address) {
-              console.log(`[ConnectButton] Successfully connected with WalletConnect: ${authResult.address}`);
-              setIsAuthConnected(true);
-              onAuthSuccess(authResult.address);
-            } else {
-              console.error(`[ConnectButton] Failed to connect with WalletConnect: ${authResult.error}`);
-              setError(authResult.error || 'Failed to connect with WalletConnect');
-            }
-          }, 1000);
-        } else {
-          console.error("[ConnectButton] WalletConnect connector not found");
-          setError('WalletConnect connector not found');
-        }
+        await connectWithConnector("walletConnect", "WalletConnect", "walletconnect");
       } else {
         console.log("[ConnectButton] No wallet selected or unknown result");
         setError('No wallet selected');
@@ -153,68 +120,128 @@ const ConnectButton: React.FC<ConnectButtonProps> = ({ onAuthSuccess, onXmtpSucc
     } catch (err) {
       console.error('[ConnectButton] Error connecting:', err);
       setError('An unexpected error occurred');
-    } finally {
-      setIsLoading(false);
     }
   };
   
-  const handleConnectXmtp = async () => {
+  // Sign in with a development test account
+  const handleConnectWithLocalKey = async (index: number) => {
+    console.log(`[ConnectButton] Connecting with local test account ${index}`);
+    dispatch({ type: 'CONNECT_WALLET' });
+    
+    const authResult = await auth.connectWithLocalKey(index);
+    if (authResult.success && authResult.address) {
+      dispatch({ type: 'WALLET_CONNECTED', address: authResult.address });
+    } else {
+      dispatch({ type: 'WALLET_FAILED', error: authResult.error || 'Failed to connect with local test account' });
+    }
+  };
+  
+  // Connect to the tutor over the configured transport. App makes the connection once the state changes.
+  const handleConnectXmtp = () => {
     console.log("[ConnectButton] handleConnectXmtp called");
-    setIsLoading(true);
-    setError(null);
+    dispatch({ type: 'CONNECT_XMTP' });
+  };
+  
+  // Try the failed step again
+  const handleRetry = () => {
+    if (state.status === 'error' && state.step === 'wallet') {
+      handleConnectWithSelector({ type: 'RETRY' });
+    } else {
+      dispatch({ type: 'RETRY' });
+    }
+  };
+  
+  // Delete the XMTP key the wallet cannot unlock and connect with a new one, at the learner's request
+  const handleResetKey = async () => {
+    if (state.status !== 'error' || !state.address) return;
     
+    console.log(`[ConnectButton] Resetting the XMTP key of ${state.address}`);
     try {
-      // Connect to XMTP
-      console.log("[ConnectButton] Connecting to XMTP");
-      const result = await xmtpService.connect();
-      console.log("[ConnectButton] XMTP connection result:", result);
-      
-      if (result.success) {
-        console.log("[ConnectButton] Successfully connected to XMTP");
-        onXmtpSuccess();
-      } else {
-        console.error(`[ConnectButton] Failed to connect to XMTP: ${result.error}`);
-        setError(result.error || 'Failed to connect to XMTP');
-      }
+      await keyStorage.removeKey(state.address);
     } catch (err) {
-      console.error('[ConnectButton] Error connecting to XMTP:', err);
-      setError('An unexpected error occurred');
-    } finally {
-      setIsLoading(false);
+      console.error('[ConnectButton] Failed to reset the XMTP key:', err);
+      return;
     }
+    dispatch({ type: 'RETRY' });
   };
   
-  console.log(`[ConnectButton] Rendering with isAuthConnected: ${isAuthConnected}`);
+  // Go back to choosing a wallet
+  const handleUseAnotherWallet = () => {
+    auth.disconnect();
+    dispatch({ type: 'BACK' });
+  };
+  
+  console.log(`[ConnectButton] Rendering in state: ${state.status}`);
+  
+  // Name the network the tutor is reached over
+  const usesWebSocket = (() => {
+    try {
+      return config.getConfig().tutorTransport === 'websocket';
+    } catch {
+      return false;
+    }
+  })();
+  
+  const buttonClassName = "font-bold text-lg px-8 py-6 h-auto bg-blue-500 hover:bg-blue-600 text-white shadow-lg hover:shadow-xl transition-all";
+  
+  if (state.status === 'error') {
+    return (
+      <div className="flex flex-col items-center gap-4">
+        <p className="text-red-500 text-sm text-center max-w-sm">{state.error}</p>
+        <div className="flex gap-2">
+          <Button size="lg" onClick={handleRetry} className={buttonClassName}>
+            Try again
+          </Button>
+          <Button size="lg" variant="ghost" onClick={() => dispatch({ type: 'BACK' })} className="text-gray-300">
+            Back
+          </Button>
+        </div>
+        {state.keyUnlockFailed && (
+          <Button variant="ghost" size="sm" onClick={handleResetKey} className="text-red-400">
+            Reset key and lose the local history
+          </Button>
+        )}
+      </div>
+    );
+  }
   
-  if (!isAuthConnected) {
+  if (state.status === 'walletNeeded' || state.status === 'walletConnecting') {
+    const isConnecting = state.status === 'walletConnecting';
+    
     return (
       <div className="flex flex-col items-center gap-4">
         <Button 
           size="lg" 
-          onClick={handleConnectWithSelector} 
-          disabled={isLoading}
+          onClick={() => handleConnectWithSelector()} 
+          disabled={isConnecting}
           variant="default"
-          className="font-bold text-lg px-8 py-6 h-auto bg-blue-500 hover:bg-blue-600 text-white shadow-lg hover:shadow-xl transition-all"
+          className={buttonClassName}
         >
-          {isLoading ? 'Connecting...' : 'Connect Wallet'}
+          {isConnecting ? 'Connecting...' : 'Connect Wallet'}
         </Button>
-        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <LocalAccountPicker value={null} onSelect={handleConnectWithLocalKey} disabled={isConnecting} />
       </div>
     );
   }
   
+  const isConnecting = state.status === 'xmtpConnecting';
+  
   return (
     <div className="flex flex-col items-center gap-4">
       <Button 
         size="lg" 
         onClick={handleConnectXmtp} 
-        disabled={isLoading}
+        disabled={isConnecting}
         variant="default"
-        className="font-bold text-lg px-8 py-6 h-auto bg-blue-500 hover:bg-blue-600 text-white shadow-lg hover:shadow-xl transition-all"
+        className={buttonClassName}
       >
-        {isLoading ? 'Connecting...' : 'Connect to XMTP'}
+        {isConnecting ? 'Connecting...' : usesWebSocket ? 'Connect to Tutor' : 'Connect to XMTP'}
       </Button>
-      {error && <p className="text-red-500 text-sm">{error}</p>}
+      {state.status === 'xmtpNeeded' && !demoMode.isEnabled() && (
+        <Button variant="ghost" size="sm" onClick={handleUseAnotherWallet} className="text-gray-300">
+          Use another wallet
+        </Button>
+      )}
     </div>
   );
 };
@@ -1,28 +1,103 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
 import { Button } from './ui/button';
+import TutorSettings from './TutorSettings';
+import PersonaPicker from './PersonaPicker';
+import MessageRequests from './MessageRequests';
+import LocalAccountPicker from './LocalAccountPicker';
 import { Wallet } from '@phosphor-icons/react';
-import { authService } from '../services/silk/authService';
-import { xmtpService } from '../services/xmtp/xmtpService';
+import type { XmtpInstallation, ConnectionStatus } from '../services/xmtp/xmtpService';
+import { useServices } from '../context/ScarlettProvider';
+import { useAuth } from '../hooks/useAuth';
+import { useTutorConversation } from '../hooks/useTutorConversation';
+import { useEntitlements } from '../hooks/useEntitlements';
+
+const connectionStatusLabels: Record<ConnectionStatus, string> = {
+  live: 'Live',
+  reconnecting: 'Reconnecting…',
+  offline: 'Offline',
+};
+
+const connectionStatusColors: Record<ConnectionStatus, string> = {
+  live: 'bg-green-500',
+  reconnecting: 'bg-yellow-500',
+  offline: 'bg-red-500',
+};
 
 interface HeaderProps {
   isConnected: boolean;
   address: string;
   onLogout: () => void;
+  onSettingsChanged: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ isConnected, address, onLogout }) => {
+const Header: React.FC<HeaderProps> = ({ isConnected, address, onLogout, onSettingsChanged }) => {
+  const { xmtp, demoMode } = useServices();
+  const [installations, setInstallations] = useState<XmtpInstallation[]>([]);
+  const [isRevoking, setIsRevoking] = useState(false);
+  const [revokeError, setRevokeError] = useState<string | null>(null);
+  const { formattedAddress: walletAddress, localAccountIndex, connectWithLocalKey } = useAuth();
+  const { kind, isConnected: isTutorConnected, connectionStatus } = useTutorConversation();
+  const { plan, voiceTurnsUsedToday, voiceTurnsRemaining, isChecking: isCheckingPlan, refresh: refreshPlan } = useEntitlements();
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(() => xmtp.getLastSyncedAt());
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  // Follow the background sync
+  useEffect(() => {
+    setLastSyncedAt(xmtp.getLastSyncedAt());
+    return xmtp.onSync(setLastSyncedAt);
+  }, [xmtp]);
+
+  // Check the plan and load installations whenever the account dialog is opened
+  const handleOpenChange = async (open: boolean) => {
+    if (open && !demoMode.isEnabled()) {
+      refreshPlan();
+    }
+    if (!open || kind !== 'xmtp' || !isTutorConnected) return;
+    setRevokeError(null);
+    setInstallations(await xmtp.getInstallations());
+  };
+
+  // Sync with messages sent from other devices right away
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await xmtp.syncNow();
+    setIsSyncing(false);
+  };
+
+  // Revoke all installations except this one
+  const handleRevokeOthers = async () => {
+    setIsRevoking(true);
+    setRevokeError(null);
+
+    const result = await xmtp.revokeOtherInstallations();
+    if (!result.success) {
+      setRevokeError(result.error || 'Failed to revoke installations');
+    }
+
+    setInstallations(await xmtp.getInstallations());
+    setIsRevoking(false);
+  };
+
   if (!isConnected) {
     return null; // Don't show header if not connected
   }
 
-  const formattedAddress = authService.getFormattedAddress();
+  const isDemo = demoMode.isEnabled();
+  const formattedAddress = isDemo ? 'Demo' : walletAddress;
+  const otherInstallations = installations.filter(installation => !installation.isCurrent);
   
   return (
-    <header className="fixed top-0 left-0 right-0 h-16 bg-background border-b border-neutral-600 border-border flex items-center justify-end px-4 z-10">
-      <div className="flex items-center gap-2">
-        <Dialog>
+    <header className="fixed top-0 left-0 right-0 h-16 bg-background border-b border-neutral-600 border-border flex items-center justify-between gap-3 px-4 z-10">
+      <PersonaPicker />
+      <div className="flex items-center gap-3 ml-auto">
+        {kind === 'xmtp' && !isDemo && <MessageRequests />}
+        <div className="flex items-center gap-1.5" title="Message stream status">
+          <span className={`h-2 w-2 rounded-full ${connectionStatusColors[connectionStatus]}`} />
+          <span className="text-xs text-gray-300">{connectionStatusLabels[connectionStatus]}</span>
+        </div>
+        <Dialog onOpenChange={handleOpenChange}>
           <DialogTrigger asChild>
             <Button 
               variant="outline" 
@@ -42,16 +117,70 @@ const Header: React.FC<HeaderProps> = ({ isConnected, address, onLogout }) => {
                 <span className="text-sm font-medium">Address</span>
                 <span className="text-xs text-gray-300 break-all">{address}</span>
               </div>
+              {localAccountIndex !== null && (
+                // Switching test accounts goes through onboarding again like a wallet account switch
+                <LocalAccountPicker value={localAccountIndex} onSelect={connectWithLocalKey} />
+              )}
               <div className="flex flex-col gap-1">
-                <span className="text-sm font-medium">XMTP Status</span>
+                <span className="text-sm font-medium">{kind === 'websocket' ? 'Tutor connection' : 'XMTP Status'}</span>
                 <span className="text-xs text-gray-300">
-                  {xmtpService.isConnected() ? 'Connected' : 'Not connected'}
+                  {isDemo
+                    ? 'Demo mode (simulated tutor, nothing is sent over the network)'
+                    : isTutorConnected ? `Connected (${connectionStatusLabels[connectionStatus]})` : 'Not connected'}
                 </span>
               </div>
+              {kind === 'xmtp' && !isDemo && (
+                <div className="flex flex-col gap-1">
+                  <span className="text-sm font-medium">Last synced</span>
+                  <span className="text-xs text-gray-300">
+                    {lastSyncedAt ? lastSyncedAt.toLocaleTimeString() : 'Not synced yet'}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="self-start mt-1"
+                    onClick={handleSyncNow}
+                    disabled={isSyncing || !isTutorConnected}
+                  >
+                    {isSyncing ? 'Syncing...' : 'Sync now'}
+                  </Button>
+                </div>
+              )}
+              {installations.length > 0 && (
+                <div className="flex flex-col gap-1">
+                  <span className="text-sm font-medium">Installations</span>
+                  <span className="text-xs text-gray-300">
+                    {installations.length} registered ({otherInstallations.length} on other devices or browsers)
+                  </span>
+                  {otherInstallations.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="self-start mt-1"
+                      onClick={handleRevokeOthers}
+                      disabled={isRevoking}
+                    >
+                      {isRevoking ? 'Revoking...' : 'Revoke other installations'}
+                    </Button>
+                  )}
+                  {revokeError && <span className="text-xs text-red-500">{revokeError}</span>}
+                </div>
+              )}
               <div className="flex flex-col gap-1">
                 <span className="text-sm font-medium">Plan</span>
-                <span className="text-xs text-gray-300">Free</span>
+                <span className="text-xs text-gray-300">
+                  {plan.name}{isCheckingPlan && ' (checking membership…)'}
+                </span>
+                <span className="text-xs text-gray-300">
+                  {voiceTurnsRemaining === null
+                    ? `Unlimited voice turns (${voiceTurnsUsedToday} today)`
+                    : `${voiceTurnsRemaining} of ${plan.limits.dailyVoiceTurns} voice turns left today`}
+                </span>
+                <span className="text-xs text-gray-300">
+                  Recordings up to {plan.limits.maxRecordingSeconds} seconds
+                </span>
               </div>
+              <TutorSettings onSaved={onSettingsChanged} />
             </div>
             <div className="flex justify-end">
               <Button variant="outline" onClick={onLogout}>Logout</Button>
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import type { LocalAccount } from '../services/silk/localAccounts';
+
+interface LocalAccountPickerProps {
+  // The test account in use, or null to show a placeholder
+  value: number | null;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+// Chooser for the development test accounts. Renders nothing unless local keys are configured.
+const LocalAccountPicker: React.FC<LocalAccountPickerProps> = ({ value, onSelect, disabled }) => {
+  const auth = useAuth();
+  // Read the accounts without throwing, so a malformed key only hides the picker
+  const [accounts] = useState<LocalAccount[]>(() => {
+    if (!auth.isLocalKeyAuthAvailable()) return [];
+    try {
+      return auth.getLocalAccounts();
+    } catch (error) {
+      console.error('[LocalAccountPicker] Could not load local test accounts:', error);
+      return [];
+    }
+  });
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  return (
+    <label className="flex flex-col gap-1 text-xs text-gray-300">
+      Local test account (development only)
+      <select
+        value={value ?? ''}
+        onChange={(e) => e.target.value !== '' && onSelect(Number(e.target.value))}
+        disabled={disabled}
+        className="rounded-md bg-neutral-800 border border-neutral-600 px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-blue-500"
+      >
+        {value === null && <option value="">Choose an account…</option>}
+        {accounts.map(account => (
+          <option key={account.index} value={account.index}>
+            #{account.index} {account.address}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default LocalAccountPicker;
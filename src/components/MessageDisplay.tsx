@@ -3,38 +3,14 @@ import { XmtpMessage } from '../services/xmtp/xmtpService';
 import { ArrowCounterClockwise } from '@phosphor-icons/react';
 
 interface MessageDisplayProps {
-  message: XmtpMessage | null;
-  isLoading: boolean;
+  message: XmtpMessage;
+  autoPlay?: boolean;
 }
 
-// Define an interface for the parsed JSON content
-interface JsonContent {
-  text: string;
-  audioCorrelationId?: string;
-  wordTimestamps?: Array<{
-    word: string;
-    start: number;
-    end: number;
-  }>;
-  // Add fields for audio_response format
-  message_type?: string;
-  content?: {
-    text: string;
-    word_timestamps?: Array<{
-      word: string;
-      start: number;
-      end: number;
-    }>;
-    pair_id?: string;
-  };
-  pair_id?: string;
-}
-
-const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, isLoading }) => {
+const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, autoPlay = false }) => {
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [highlightedText, setHighlightedText] = useState<React.ReactNode | null>(null);
-  const [parsedJsonContent, setParsedJsonContent] = useState<JsonContent | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const intervalRef = useRef<number | null>(null);
   
@@ -47,58 +23,6 @@ const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, isLoading }) =
     };
   }, []);
   
-  // Parse JSON content if the message is in JSON format
-  useEffect(() => {
-    if (message && message.contentType === 'text') {
-      try {
-        // Check if the content is JSON
-        const content = message.content as string;
-        if (content.trim().startsWith('{') && content.trim().endsWith('}')) {
-          const jsonContent = JSON.parse(content) as JsonContent;
-          console.log('Parsed JSON message in MessageDisplay:', jsonContent);
-          
-          setParsedJsonContent(jsonContent);
-          
-          // Handle the audio_response format
-          if (jsonContent.message_type === 'audio_response' && jsonContent.content) {
-            // If word timestamps are available in the JSON, map them to the expected format
-            if (jsonContent.content.word_timestamps && jsonContent.content.word_timestamps.length > 0) {
-              const mappedTimestamps = jsonContent.content.word_timestamps.map(wt => ({
-                text: wt.word,
-                start_time: wt.start,
-                end_time: wt.end
-              }));
-              
-              // Now assign the properly formatted timestamps to the message
-              message.wordTimestamps = mappedTimestamps;
-            }
-          } 
-          // Handle the direct format
-          else if (jsonContent.text) {
-            // If word timestamps are available in the JSON, map them to the expected format
-            if (jsonContent.wordTimestamps && jsonContent.wordTimestamps.length > 0) {
-              const mappedTimestamps = jsonContent.wordTimestamps.map(wt => ({
-                text: wt.word,
-                start_time: wt.start,
-                end_time: wt.end
-              }));
-              
-              // Now assign the properly formatted timestamps to the message
-              message.wordTimestamps = mappedTimestamps;
-            }
-          }
-        } else {
-          setParsedJsonContent(null);
-        }
-      } catch (e) {
-        console.error('Failed to parse message content as JSON:', e);
-        setParsedJsonContent(null);
-      }
-    } else {
-      setParsedJsonContent(null);
-    }
-  }, [message]);
-  
   // Handle new message
   useEffect(() => {
     // Reset state when message changes
@@ -110,8 +34,8 @@ const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, isLoading }) =
       intervalRef.current = null;
     }
     
-    // Auto-play audio when a new message arrives
-    if (message?.audioUrl) {
+    // Auto-play audio when a new message arrives. Only the tutor's audio ever plays on its own.
+    if (autoPlay && message.isFromBot && message.audioUrl) {
       if (audioRef.current) {
         audioRef.current.src = message.audioUrl;
         audioRef.current.play().catch(e => console.error("Failed to play audio:", e));
@@ -122,19 +46,12 @@ const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, isLoading }) =
     updateHighlightedText(0);
     
     // Log message for debugging
-    if (message) {
-      console.log('Message received in MessageDisplay:', message);
-      console.log('Word timestamps:', message.wordTimestamps);
-    }
-  }, [message]);
+    console.log('Message received in MessageDisplay:', message);
+    console.log('Word timestamps:', message.wordTimestamps);
+  }, [message, autoPlay]);
   
   // Update highlighted text based on current time
   const updateHighlightedText = (time: number) => {
-    if (!message) {
-      setHighlightedText(null);
-      return;
-    }
-    
     // Check if we have word timestamps
     if (message.wordTimestamps && message.wordTimestamps.length > 0) {
       const words = message.wordTimestamps;
@@ -245,39 +162,12 @@ const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, isLoading }) =
   
   // Function to determine what content to display
   const getDisplayContent = () => {
-    if (parsedJsonContent) {
-      // Check for audio_response format first
-      if (parsedJsonContent.message_type === 'audio_response' && parsedJsonContent.content) {
-        return parsedJsonContent.content.text;
-      }
-      // Then check for direct text format
-      if (parsedJsonContent.text) {
-        return parsedJsonContent.text;
-      }
-    }
-    return message?.content;
+    return message.content;
   };
   
-  if (isLoading) {
-    return (
-      <div className="flex flex-col items-center justify-center h-40 mt-16">
-        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-        <p className="mt-4 text-gray-400">Waiting for response...</p>
-      </div>
-    );
-  }
-  
-  if (!message) {
-    return (
-      <div className="flex flex-col items-center justify-center h-40 mt-16">
-        <p className="text-gray-400">Send a voice message to start a conversation</p>
-      </div>
-    );
-  }
-  
   return (
-    <div className="flex flex-col items-center mt-16 px-2 sm:px-4 w-full max-w-full">
-      <div className="w-full max-w-2xl bg-gray-800 rounded-lg p-3 sm:p-4 shadow-sm overflow-hidden">
+    <div className="flex flex-col items-start w-full max-w-full">
+      <div className="w-full max-w-[85%] bg-gray-800 rounded-lg p-3 sm:p-4 shadow-sm overflow-hidden">
         <div className="text-base sm:text-lg mb-4 text-white break-words">
           {highlightedText || getDisplayContent()}
         </div>
@@ -313,17 +203,17 @@ const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, isLoading }) =
         )}
         
         {/* Debug information */}
-        <div className="mt-4 p-2 bg-gray-900 rounded text-xs text-gray-400 overflow-auto max-h-40 text-wrap break-all">
+        <details className="mt-4 p-2 bg-gray-900 rounded text-xs text-gray-400 overflow-auto max-h-40 text-wrap break-all">
+          <summary className="cursor-pointer">Debug</summary>
           <p>Message ID: {message.id}</p>
           <p>Sender: {message.senderAddress}</p>
           <p>Content Type: {message.contentType}</p>
           <p>Has Audio: {message.audioUrl ? 'Yes' : 'No'}</p>
           <p>Has Word Timestamps: {message.wordTimestamps && message.wordTimestamps.length > 0 ? `Yes (${message.wordTimestamps.length} words)` : 'No'}</p>
           <p>Has Character Alignment: {message.alignment ? 'Yes' : 'No'}</p>
-          <p>Is JSON Message: {parsedJsonContent ? 'Yes' : 'No'}</p>
-          <p>Message Format: {parsedJsonContent?.message_type || 'Unknown'}</p>
-          <p>Pair ID: {parsedJsonContent?.content?.pair_id || parsedJsonContent?.pair_id || message.pairId || 'None'}</p>
-        </div>
+          <p>Pair ID: {message.pairId || 'None'}</p>
+          <p>Partial: {message.isPartial ? 'Yes' : 'No'}</p>
+        </details>
       </div>
     </div>
   );
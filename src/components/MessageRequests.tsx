@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
+import { Button } from './ui/button';
+import { Tray } from '@phosphor-icons/react';
+import type { MessageRequest } from '../services/xmtp/xmtpService';
+import { useServices } from '../context/ScarlettProvider';
+import { useTutorConversation } from '../hooks/useTutorConversation';
+
+// Shorten an inbox id for display
+const formatInboxId = (inboxId: string) => `${inboxId.substring(0, 6)}…${inboxId.substring(inboxId.length - 4)}`;
+
+const MessageRequests: React.FC = () => {
+  const { xmtp } = useServices();
+  const { connectionStatus } = useTutorConversation();
+  const [requests, setRequests] = useState<MessageRequest[]>([]);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the requests
+  const refresh = async () => {
+    setRequests(await xmtp.getMessageRequests());
+  };
+
+  // Look for new requests on mount and whenever the connection comes up
+  useEffect(() => {
+    if (connectionStatus === 'live') {
+      refresh();
+    }
+  }, [connectionStatus]);
+
+  // Reload when the inbox is opened
+  const handleOpenChange = (open: boolean) => {
+    if (!open) return;
+    setError(null);
+    refresh();
+  };
+
+  // Allow a denied sender
+  const handleAllow = async (conversationId: string) => {
+    setPendingId(conversationId);
+    setError(null);
+
+    const result = await xmtp.respondToMessageRequest(conversationId, true);
+    if (!result.success) {
+      setError(result.error || 'Failed to update the request');
+    }
+
+    await refresh();
+    setPendingId(null);
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Message requests">
+          <Tray size={18} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-700 border-neutral-600 text-white">
+        <DialogHeader>
+          <DialogTitle>Message requests</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col gap-3 py-4">
+          <p className="text-xs text-gray-300">
+            Messages from senders other than your tutors are denied, kept here and never shown in the conversation or played.
+          </p>
+          {requests.length === 0 && <p className="text-sm text-gray-400">No message requests</p>}
+          {requests.map(request => (
+            <div key={request.conversationId} className="flex flex-col gap-2 rounded-md border border-neutral-600 p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-mono text-gray-300" title={request.peerInboxId}>
+                  {formatInboxId(request.peerInboxId)}
+                </span>
+                {request.lastMessageAt && (
+                  <span className="text-[10px] text-gray-400">{new Date(request.lastMessageAt).toLocaleString()}</span>
+                )}
+              </div>
+              {request.preview.map((line, index) => (
+                <p key={index} className="text-sm text-gray-200 break-words line-clamp-2">{line}</p>
+              ))}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleAllow(request.conversationId)}
+                  disabled={pendingId === request.conversationId}
+                >
+                  Allow
+                </Button>
+              </div>
+            </div>
+          ))}
+          {error && <span className="text-xs text-red-500">{error}</span>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageRequests;
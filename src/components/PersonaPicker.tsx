@@ -0,0 +1,53 @@
+import React from 'react';
+import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
+import { usePersonas } from '../hooks/usePersonas';
+
+// Get the initials shown when a persona has no avatar image
+const getInitials = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+const PersonaPicker: React.FC = () => {
+  // A bad configuration leaves no personas, which only hides the picker
+  const { personas, activePersona, setActivePersona } = usePersonas();
+  const activePersonaId = activePersona?.id ?? null;
+
+  // A single tutor needs no picker
+  if (personas.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center gap-2" role="radiogroup" aria-label="Tutor">
+      {personas.map(persona => {
+        const isActive = persona.id === activePersonaId;
+        return (
+          <button
+            key={persona.id}
+            type="button"
+            role="radio"
+            aria-checked={isActive}
+            title={`${persona.name} (${persona.language})${persona.description ? ` – ${persona.description}` : ''}`}
+            onClick={() => setActivePersona(persona.id)}
+            className={`flex items-center gap-2 rounded-full pr-3 transition-colors ${
+              isActive ? 'bg-neutral-700 ring-2 ring-blue-500' : 'hover:bg-neutral-700'
+            }`}
+          >
+            <Avatar className="h-8 w-8">
+              {persona.avatarUrl && <AvatarImage src={persona.avatarUrl} alt={persona.name} />}
+              <AvatarFallback className="bg-neutral-600 text-xs text-white">{getInitials(persona.name)}</AvatarFallback>
+            </Avatar>
+            <span className="hidden sm:inline text-sm">{persona.name}</span>
+            <span className="hidden sm:inline text-[10px] uppercase text-gray-400">{persona.language}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PersonaPicker;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { PaperPlaneRight } from '@phosphor-icons/react';
+import { useTutorConversation } from '../hooks/useTutorConversation';
+
+interface TextComposerProps {
+  onMessageSent: () => void;
+  onError: (error: string) => void;
+}
+
+const TextComposer: React.FC<TextComposerProps> = ({ onMessageSent, onError }) => {
+  const { sendText } = useTutorConversation();
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  // Send the typed message
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!text.trim() || isSending) return;
+
+    setIsSending(true);
+
+    try {
+      const result = await sendText(text);
+
+      if (!result.success) {
+        onError(result.error || 'Failed to send message');
+        return;
+      }
+
+      setText('');
+      onMessageSent();
+    } catch (err) {
+      console.error('Error sending text message:', err);
+      onError('An unexpected error occurred while sending the message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-1 items-center gap-2 max-w-md">
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Type a message..."
+        disabled={isSending}
+        className="flex-1 min-w-0 rounded-full bg-neutral-700 border border-neutral-600 px-4 py-2 text-sm text-white placeholder:text-gray-400 focus:outline-none focus:border-blue-500"
+      />
+      <Button
+        type="submit"
+        size="icon"
+        variant="ghost"
+        disabled={isSending || !text.trim()}
+        aria-label="Send message"
+      >
+        <PaperPlaneRight size={20} />
+      </Button>
+    </form>
+  );
+};
+
+export default TextComposer;
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import React from "react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, cleanup } from "@testing-library/react";
+import TutorSettings from "./TutorSettings";
+import { ScarlettProvider, type ConfigServiceApi } from "../context/ScarlettProvider";
+import type { AppConfig } from "../services/config/configService";
+
+// The XMTP and Silk SDKs do not load under jsdom and WalletConnect starts up
+// noisily. The provider only needs these singletons to exist as its defaults.
+vi.mock("../services/xmtp/xmtpService", () => ({
+  xmtpService: { kind: "xmtp", on: () => () => {} },
+}));
+vi.mock("../services/silk/authService", () => ({
+  authService: { subscribe: () => () => {} },
+}));
+vi.mock("../services/silk/wagmiConfig", () => ({ wagmiConfig: {} }));
+
+const CONFIG: AppConfig = {
+  xmtpEnv: "production",
+  botInboxId: "b".repeat(64),
+  botDisplayName: "Fake tutor",
+  tutorTransport: "xmtp",
+  tutorWebSocketUrl: "",
+  attachmentBaseUrl: "",
+};
+
+// A configuration service that keeps everything in memory
+const createFakeConfig = (overrides: Partial<ConfigServiceApi> = {}): ConfigServiceApi => ({
+  getConfig: vi.fn(() => CONFIG),
+  getOverrides: vi.fn(() => ({})),
+  setOverrides: vi.fn(() => ({ success: true })),
+  clearOverrides: vi.fn(),
+  subscribe: vi.fn(() => () => {}),
+  ...overrides,
+});
+
+const renderSettings = (config: ConfigServiceApi, onSaved = vi.fn()) => {
+  render(
+    <ScarlettProvider services={{ config }}>
+      <TutorSettings onSaved={onSaved} />
+    </ScarlettProvider>
+  );
+  return onSaved;
+};
+
+describe("TutorSettings", () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("shows the configuration of the provided service", () => {
+    renderSettings(createFakeConfig());
+
+    expect(screen.getByDisplayValue("Fake tutor")).toBeTruthy();
+    expect(screen.getByDisplayValue("b".repeat(64))).toBeTruthy();
+  });
+
+  it("saves the edited values through the provided service", () => {
+    const config = createFakeConfig();
+    const onSaved = renderSettings(config);
+
+    fireEvent.change(screen.getByDisplayValue("Fake tutor"), { target: { value: "Renamed tutor" } });
+    fireEvent.click(screen.getByText("Save and reconnect"));
+
+    expect(config.setOverrides).toHaveBeenCalledWith(expect.objectContaining({ botDisplayName: "Renamed tutor" }));
+    expect(onSaved).toHaveBeenCalled();
+  });
+
+  it("shows the error of settings the service rejects", () => {
+    const config = createFakeConfig({ setOverrides: vi.fn(() => ({ success: false, error: "Bad inbox id" })) });
+    const onSaved = renderSettings(config);
+
+    fireEvent.click(screen.getByText("Save and reconnect"));
+
+    expect(screen.getByText("Bad inbox id")).toBeTruthy();
+    expect(onSaved).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import type { AppConfig, XmtpEnvironment, TutorTransportKind } from '../services/config/configService';
+import { useServices, type ConfigServiceApi } from '../context/ScarlettProvider';
+
+interface TutorSettingsProps {
+  onSaved: () => void;
+}
+
+// Read the current configuration without throwing, so malformed values can still be fixed here
+const readCurrentConfig = (configService: ConfigServiceApi): { config: Partial<AppConfig>; error: string | null } => {
+  try {
+    return { config: configService.getConfig(), error: null };
+  } catch (error) {
+    return {
+      config: configService.getOverrides(),
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+const TutorSettings: React.FC<TutorSettingsProps> = ({ onSaved }) => {
+  const { config: configService } = useServices();
+  const [initial] = useState(() => readCurrentConfig(configService));
+  const [xmtpEnv, setXmtpEnv] = useState<string>(initial.config.xmtpEnv || 'dev');
+  const [botInboxId, setBotInboxId] = useState(initial.config.botInboxId || '');
+  const [botDisplayName, setBotDisplayName] = useState(initial.config.botDisplayName || '');
+  const [tutorTransport, setTutorTransport] = useState<string>(initial.config.tutorTransport || 'xmtp');
+  const [tutorWebSocketUrl, setTutorWebSocketUrl] = useState(initial.config.tutorWebSocketUrl || '');
+  const [error, setError] = useState<string | null>(initial.error);
+
+  // Validate and save the overrides
+  const handleSave = () => {
+    const result = configService.setOverrides({
+      xmtpEnv: xmtpEnv as XmtpEnvironment,
+      botInboxId,
+      botDisplayName,
+      tutorTransport: tutorTransport as TutorTransportKind,
+      tutorWebSocketUrl,
+    });
+
+    if (!result.success) {
+      setError(result.error || 'Invalid settings');
+      return;
+    }
+
+    setError(null);
+    onSaved();
+  };
+
+  // Go back to the values from the environment
+  const handleReset = () => {
+    configService.clearOverrides();
+    const { config, error } = readCurrentConfig(configService);
+    setXmtpEnv(config.xmtpEnv || 'dev');
+    setBotInboxId(config.botInboxId || '');
+    setBotDisplayName(config.botDisplayName || '');
+    setTutorTransport(config.tutorTransport || 'xmtp');
+    setTutorWebSocketUrl(config.tutorWebSocketUrl || '');
+    setError(error);
+    onSaved();
+  };
+
+  const inputClassName = 'rounded-md bg-neutral-800 border border-neutral-600 px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-sm font-medium">Tutor settings</span>
+      <label className="flex flex-col gap-1 text-xs text-gray-300">
+        XMTP environment
+        <select value={xmtpEnv} onChange={(e) => setXmtpEnv(e.target.value)} className={inputClassName}>
+          <option value="local">local</option>
+          <option value="dev">dev</option>
+          <option value="production">production</option>
+        </select>
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-300">
+        Bot inbox id
+        <input value={botInboxId} onChange={(e) => setBotInboxId(e.target.value)} className={`${inputClassName} font-mono`} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-300">
+        Bot display name
+        <input value={botDisplayName} onChange={(e) => setBotDisplayName(e.target.value)} className={inputClassName} />
+      </label>
+      <label className="flex flex-col gap-1 text-xs text-gray-300">
+        Tutor connection
+        <select value={tutorTransport} onChange={(e) => setTutorTransport(e.target.value)} className={inputClassName}>
+          <option value="xmtp">XMTP</option>
+          <option value="websocket">WebSocket</option>
+        </select>
+      </label>
+      {tutorTransport === 'websocket' && (
+        <label className="flex flex-col gap-1 text-xs text-gray-300">
+          Tutor WebSocket URL
+          <input
+            value={tutorWebSocketUrl}
+            onChange={(e) => setTutorWebSocketUrl(e.target.value)}
+            placeholder="wss://tutor.example.com/ws"
+            className={`${inputClassName} font-mono`}
+          />
+        </label>
+      )}
+      {error && <span className="text-xs text-red-500 break-words">{error}</span>}
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleSave}>Save and reconnect</Button>
+        <Button variant="ghost" size="sm" onClick={handleReset}>Reset</Button>
+      </div>
+    </div>
+  );
+};
+
+export default TutorSettings;
@@ -0,0 +1,130 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { authService } from '../services/silk/authService';
+import { tutorService } from '../services/tutor/tutorService';
+import { audioRecorderService } from '../services/audio/audioRecorderService';
+import { entitlementService } from '../services/entitlements/entitlementService';
+import { xmtpService } from '../services/xmtp/xmtpService';
+import { outboxService } from '../services/xmtp/outboxService';
+import { keyStorageService } from '../services/xmtp/keyStorageService';
+import { personaService } from '../services/config/personaService';
+import { demoModeService } from '../services/demo/demoModeService';
+import { configService } from '../services/config/configService';
+
+// The parts of each service the hooks use. Fakes only need to implement these.
+export type AuthServiceApi = Pick<
+  typeof authService,
+  | 'getState'
+  | 'subscribe'
+  | 'waitForInitialization'
+  | 'getSilkProvider'
+  | 'connectWithSilk'
+  | 'connectWithInjected'
+  | 'connectWithProvider'
+  | 'isLocalKeyAuthAvailable'
+  | 'getLocalAccounts'
+  | 'connectWithLocalKey'
+  | 'disconnect'
+  | 'getFormattedAddress'
+>;
+
+export type TutorServiceApi = Pick<
+  typeof tutorService,
+  | 'getState'
+  | 'subscribe'
+  | 'connect'
+  | 'disconnect'
+  | 'getUserAddress'
+  | 'sendAudio'
+  | 'sendText'
+  | 'startListening'
+  | 'loadHistory'
+  | 'loadOlderHistory'
+  | 'hasMoreHistory'
+  | 'on'
+  | 'off'
+>;
+
+export type RecorderServiceApi = Pick<
+  typeof audioRecorderService,
+  'getRecordingState' | 'subscribe' | 'startRecording' | 'stopRecording' | 'isSupported' | 'cleanup'
+>;
+
+export type EntitlementServiceApi = Pick<
+  typeof entitlementService,
+  'getState' | 'subscribe' | 'checkVoiceTurn' | 'refresh'
+>;
+
+// The XMTP features that have no equivalent in the WebSocket transport
+export type XmtpServiceApi = Pick<
+  typeof xmtpService,
+  | 'getLastSyncedAt'
+  | 'onSync'
+  | 'syncNow'
+  | 'getInstallations'
+  | 'revokeOtherInstallations'
+  | 'getMessageRequests'
+  | 'respondToMessageRequest'
+>;
+
+export type OutboxServiceApi = Pick<
+  typeof outboxService,
+  'getItems' | 'subscribe' | 'start' | 'stop' | 'enqueue' | 'retry' | 'discard'
+>;
+
+export type KeyStorageServiceApi = Pick<typeof keyStorageService, 'hasStoredKey' | 'removeKey'>;
+
+export type PersonaServiceApi = Pick<
+  typeof personaService,
+  'getPersonas' | 'getActivePersona' | 'setActivePersona' | 'subscribe'
+>;
+
+export type DemoModeServiceApi = Pick<typeof demoModeService, 'isEnabled' | 'enable' | 'disable'>;
+
+export type ConfigServiceApi = Pick<
+  typeof configService,
+  'getConfig' | 'getOverrides' | 'setOverrides' | 'clearOverrides' | 'subscribe'
+>;
+
+export interface ScarlettServices {
+  auth: AuthServiceApi;
+  tutor: TutorServiceApi;
+  recorder: RecorderServiceApi;
+  entitlements: EntitlementServiceApi;
+  xmtp: XmtpServiceApi;
+  outbox: OutboxServiceApi;
+  keyStorage: KeyStorageServiceApi;
+  personas: PersonaServiceApi;
+  demoMode: DemoModeServiceApi;
+  config: ConfigServiceApi;
+}
+
+const defaultServices: ScarlettServices = {
+  auth: authService,
+  tutor: tutorService,
+  recorder: audioRecorderService,
+  entitlements: entitlementService,
+  xmtp: xmtpService,
+  outbox: outboxService,
+  keyStorage: keyStorageService,
+  personas: personaService,
+  demoMode: demoModeService,
+  config: configService,
+};
+
+const ScarlettContext = createContext<ScarlettServices>(defaultServices);
+
+interface ScarlettProviderProps {
+  // Replaces some or all of the app's services, e.g. with fakes in tests
+  services?: Partial<ScarlettServices>;
+  children: React.ReactNode;
+}
+
+// Provides the services to the hooks below it
+export const ScarlettProvider: React.FC<ScarlettProviderProps> = ({ services, children }) => {
+  const value = useMemo(() => ({ ...defaultServices, ...services }), [services]);
+
+  return <ScarlettContext.Provider value={value}>{children}</ScarlettContext.Provider>;
+};
+
+// Get the services provided by the nearest ScarlettProvider
+export const useServices = (): ScarlettServices => useContext(ScarlettContext);
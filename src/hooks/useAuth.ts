@@ -0,0 +1,33 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useServices } from '../context/ScarlettProvider';
+import type { AuthState } from '../services/silk/authService';
+
+// Follow the wallet connection. Re-renders when the auth service connects, disconnects or finishes initializing.
+export const useAuth = () => {
+  const { auth } = useServices();
+  const [state, setState] = useState<AuthState>(() => auth.getState());
+
+  useEffect(() => {
+    // The state may have changed between the first render and subscribing
+    setState(auth.getState());
+    return auth.subscribe(setState);
+  }, [auth]);
+
+  const actions = useMemo(() => ({
+    waitForInitialization: () => auth.waitForInitialization(),
+    getSilkProvider: () => auth.getSilkProvider(),
+    connectWithSilk: () => auth.connectWithSilk(),
+    connectWithInjected: () => auth.connectWithInjected(),
+    connectWithProvider: (...args: Parameters<typeof auth.connectWithProvider>) => auth.connectWithProvider(...args),
+    isLocalKeyAuthAvailable: () => auth.isLocalKeyAuthAvailable(),
+    getLocalAccounts: () => auth.getLocalAccounts(),
+    connectWithLocalKey: (index?: number) => auth.connectWithLocalKey(index),
+    disconnect: () => auth.disconnect(),
+  }), [auth]);
+
+  return {
+    ...state,
+    formattedAddress: state.isConnected ? auth.getFormattedAddress() : '',
+    ...actions,
+  };
+};
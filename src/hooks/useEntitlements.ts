@@ -0,0 +1,22 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useServices } from '../context/ScarlettProvider';
+import type { EntitlementState } from '../services/entitlements/entitlementService';
+
+// Follow the learner's plan and how much of today's quota is left
+export const useEntitlements = () => {
+  const { entitlements } = useServices();
+  const [state, setState] = useState<EntitlementState>(() => entitlements.getState());
+
+  useEffect(() => {
+    // The state may have changed between the first render and subscribing
+    setState(entitlements.getState());
+    return entitlements.subscribe(setState);
+  }, [entitlements]);
+
+  const actions = useMemo(() => ({
+    checkVoiceTurn: () => entitlements.checkVoiceTurn(),
+    refresh: (force?: boolean) => entitlements.refresh(force),
+  }), [entitlements]);
+
+  return { ...state, limits: state.plan.limits, ...actions };
+};
@@ -0,0 +1,23 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useServices } from '../context/ScarlettProvider';
+import type { OutboxItem } from '../services/xmtp/outboxService';
+
+// Follow the recordings waiting to be sent
+export const useOutbox = () => {
+  const { outbox } = useServices();
+  const [items, setItems] = useState<OutboxItem[]>(() => outbox.getItems());
+
+  useEffect(() => {
+    // The items may have changed between the first render and subscribing
+    setItems(outbox.getItems());
+    return outbox.subscribe(setItems);
+  }, [outbox]);
+
+  const actions = useMemo(() => ({
+    enqueue: (blob: Blob) => outbox.enqueue(blob),
+    retry: (id: string) => outbox.retry(id),
+    discard: (id: string) => outbox.discard(id),
+  }), [outbox]);
+
+  return { items, ...actions };
+};
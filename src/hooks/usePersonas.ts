@@ -0,0 +1,45 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useServices, type PersonaServiceApi } from '../context/ScarlettProvider';
+import type { TutorPersona } from '../services/config/personaService';
+
+// Read the personas without throwing, so a bad configuration only hides them
+export const readPersonas = (personas: PersonaServiceApi): TutorPersona[] => {
+  try {
+    return personas.getPersonas();
+  } catch (error) {
+    console.error('[usePersonas] Could not load personas:', error);
+    return [];
+  }
+};
+
+// Read the active persona, or nothing while the configuration is invalid
+export const readActivePersona = (personas: PersonaServiceApi): TutorPersona | null => {
+  try {
+    return personas.getActivePersona();
+  } catch {
+    return null;
+  }
+};
+
+// Follow the tutor personas and which one is selected
+export const usePersonas = () => {
+  const { personas: personaService } = useServices();
+  const [personas, setPersonas] = useState<TutorPersona[]>(() => readPersonas(personaService));
+  const [activePersona, setActivePersona] = useState<TutorPersona | null>(() => readActivePersona(personaService));
+
+  // Follow persona changes, including the default persona being renamed in the settings
+  useEffect(() => {
+    setPersonas(readPersonas(personaService));
+    setActivePersona(readActivePersona(personaService));
+    return personaService.subscribe(persona => {
+      setPersonas(readPersonas(personaService));
+      setActivePersona(persona);
+    });
+  }, [personaService]);
+
+  const actions = useMemo(() => ({
+    setActivePersona: (id: string) => personaService.setActivePersona(id),
+  }), [personaService]);
+
+  return { personas, activePersona, ...actions };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useServices } from '../context/ScarlettProvider';
+import type { RecordingState } from '../services/audio/audioRecorderService';
+
+// Follow the microphone recording. Releases the microphone when the component unmounts.
+export const useRecorder = () => {
+  const { recorder } = useServices();
+  const [state, setState] = useState<RecordingState>(() => recorder.getRecordingState());
+
+  useEffect(() => {
+    setState(recorder.getRecordingState());
+    const unsubscribe = recorder.subscribe(setState);
+
+    return () => {
+      unsubscribe();
+      recorder.cleanup();
+    };
+  }, [recorder]);
+
+  const actions = useMemo(() => ({
+    isSupported: recorder.isSupported(),
+    startRecording: () => recorder.startRecording(),
+    stopRecording: () => recorder.stopRecording(),
+  }), [recorder]);
+
+  return { ...state, ...actions };
+};
@@ -0,0 +1,30 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useServices } from '../context/ScarlettProvider';
+import type { TutorState } from '../services/tutor/tutorService';
+
+// Follow the connection to the tutor. Messages are sent to the given persona, or to the active one.
+export const useTutorConversation = (personaId?: string) => {
+  const { tutor } = useServices();
+  const [state, setState] = useState<TutorState>(() => tutor.getState());
+
+  useEffect(() => {
+    // The state may have changed between the first render and subscribing
+    setState(tutor.getState());
+    return tutor.subscribe(setState);
+  }, [tutor]);
+
+  const actions = useMemo(() => ({
+    connect: () => tutor.connect(),
+    disconnect: () => tutor.disconnect(),
+    getUserAddress: () => tutor.getUserAddress(),
+    sendAudio: (audio: Blob) => tutor.sendAudio(audio, personaId),
+    sendText: (text: string) => tutor.sendText(text, personaId),
+    startListening: (id?: string) => tutor.startListening(id ?? personaId),
+    loadHistory: (id?: string) => tutor.loadHistory(id ?? personaId),
+    loadOlderHistory: (id?: string) => tutor.loadOlderHistory(id ?? personaId),
+    hasMoreHistory: (id?: string) => tutor.hasMoreHistory(id ?? personaId),
+    on: tutor.on.bind(tutor) as typeof tutor.on,
+  }), [tutor, personaId]);
+
+  return { ...state, ...actions };
+};
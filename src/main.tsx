@@ -1,10 +1,13 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./App";
+import { ScarlettProvider } from "./context/ScarlettProvider";
 import "./index.css";
 
 ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
   <React.StrictMode>
-    <App />
+    <ScarlettProvider>
+      <App />
+    </ScarlettProvider>
   </React.StrictMode>,
 );
@@ -0,0 +1,11 @@
+// Read the length of a recording in seconds by decoding it. Recorder output often has no
+// duration in its container, so the metadata an audio element would read cannot be trusted.
+export const getAudioDuration = async (audio: Blob): Promise<number> => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+    return buffer.duration;
+  } finally {
+    context.close();
+  }
+};
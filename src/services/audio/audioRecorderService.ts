@@ -13,12 +13,29 @@ class AudioRecorderService {
   private recordingState: RecordingState = {
     isRecording: false
   };
+  private listeners: Set<(state: RecordingState) => void> = new Set();
   
   // Get recording state
   getRecordingState(): RecordingState {
     return this.recordingState;
   }
   
+  // Subscribe to recording state changes. Returns an unsubscribe function.
+  subscribe(listener: (state: RecordingState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  
+  // Update the recording state and notify listeners
+  private setRecordingState(state: RecordingState) {
+    this.recordingState = state;
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+  
   // Start recording
   async startRecording(): Promise<{ success: boolean; error?: string }> {
     try {
@@ -42,9 +59,9 @@ class AudioRecorderService {
       this.mediaRecorder.start();
       
       // Update state
-      this.recordingState = {
+      this.setRecordingState({
         isRecording: true
-      };
+      });
       
       return { success: true };
     } catch (error) {
@@ -60,10 +77,10 @@ class AudioRecorderService {
       }
       
       // Update state
-      this.recordingState = {
+      this.setRecordingState({
         isRecording: false,
         error: errorMessage
-      };
+      });
       
       return { success: false, error: errorMessage };
     }
@@ -74,10 +91,10 @@ class AudioRecorderService {
     return new Promise((resolve) => {
       if (!this.mediaRecorder || !this.stream) {
         const error = "No active recording to stop";
-        this.recordingState = {
+        this.setRecordingState({
           isRecording: false,
           error
-        };
+        });
         resolve({ success: false, error });
         return;
       }
@@ -91,10 +108,10 @@ class AudioRecorderService {
         this.stream?.getTracks().forEach(track => track.stop());
         
         // Update state
-        this.recordingState = {
+        this.setRecordingState({
           isRecording: false,
           audioBlob,
-        };
+        });
         
         // Resolve with audio data
         resolve({
@@ -123,9 +140,9 @@ class AudioRecorderService {
     this.mediaRecorder = null;
     this.audioChunks = [];
     
-    this.recordingState = {
+    this.setRecordingState({
       isRecording: false
-    };
+    });
   }
 }
 
@@ -0,0 +1,195 @@
+// Types
+export type XmtpEnvironment = "local" | "dev" | "production";
+export type TutorTransportKind = "xmtp" | "websocket";
+
+export interface AppConfig {
+  xmtpEnv: XmtpEnvironment;
+  botInboxId: string;
+  botDisplayName: string;
+  tutorTransport: TutorTransportKind;
+  tutorWebSocketUrl: string;
+  // Where recordings too large to send inline are uploaded. Must be https, the codec refuses anything else.
+  attachmentBaseUrl: string;
+}
+
+const XMTP_ENVIRONMENTS: XmtpEnvironment[] = ["local", "dev", "production"];
+const TUTOR_TRANSPORTS: TutorTransportKind[] = ["xmtp", "websocket"];
+const OVERRIDES_STORAGE_KEY = "scarlett-config-overrides";
+
+const DEFAULT_CONFIG: AppConfig = {
+  xmtpEnv: "dev",
+  botInboxId: "633b88245faf4bf9ff6bf6423c413f0a4329c052ab7f728932998ca4a3b438ce",
+  botDisplayName: "Scarlett",
+  tutorTransport: "xmtp",
+  tutorWebSocketUrl: "",
+  attachmentBaseUrl: "",
+};
+
+// Error thrown when configuration values are malformed
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration: ${problems.join("; ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// Check configuration values and return a description of each problem
+export const validateConfig = (config: Partial<AppConfig>): string[] => {
+  const problems: string[] = [];
+
+  if (config.xmtpEnv !== undefined && !XMTP_ENVIRONMENTS.includes(config.xmtpEnv)) {
+    problems.push(`XMTP environment must be one of ${XMTP_ENVIRONMENTS.join(", ")} (got "${config.xmtpEnv}")`);
+  }
+  if (config.botInboxId !== undefined && !/^[0-9a-f]{64}$/.test(config.botInboxId)) {
+    problems.push(`bot inbox id must be 64 lowercase hex characters (got "${config.botInboxId}")`);
+  }
+  if (config.botDisplayName !== undefined) {
+    const name = config.botDisplayName.trim();
+    if (!name || name.length > 50) {
+      problems.push("bot display name must be between 1 and 50 characters");
+    }
+  }
+
+  if (config.tutorTransport !== undefined && !TUTOR_TRANSPORTS.includes(config.tutorTransport)) {
+    problems.push(`tutor transport must be one of ${TUTOR_TRANSPORTS.join(", ")} (got "${config.tutorTransport}")`);
+  }
+  if (config.tutorWebSocketUrl && !/^wss?:\/\/\S+$/.test(config.tutorWebSocketUrl)) {
+    problems.push(`tutor WebSocket URL must start with ws:// or wss:// (got "${config.tutorWebSocketUrl}")`);
+  }
+
+  if (config.attachmentBaseUrl && !/^https:\/\/\S+$/.test(config.attachmentBaseUrl)) {
+    problems.push(`attachment base URL must start with https:// (got "${config.attachmentBaseUrl}")`);
+  }
+
+  return problems;
+};
+
+// Check the values that depend on each other in a complete configuration
+const validateTransport = (config: AppConfig): string[] =>
+  config.tutorTransport === "websocket" && !config.tutorWebSocketUrl
+    ? ["the websocket tutor transport needs a tutor WebSocket URL"]
+    : [];
+
+// Read the configuration from Vite environment variables, skipping unset ones
+const readEnvConfig = (): Partial<AppConfig> => {
+  const config: Partial<AppConfig> = {};
+
+  if (process.env.VITE_XMTP_ENV) {
+    config.xmtpEnv = process.env.VITE_XMTP_ENV as XmtpEnvironment;
+  }
+  if (process.env.VITE_BOT_INBOX_ID) {
+    config.botInboxId = process.env.VITE_BOT_INBOX_ID;
+  }
+  if (process.env.VITE_BOT_DISPLAY_NAME) {
+    config.botDisplayName = process.env.VITE_BOT_DISPLAY_NAME;
+  }
+  if (process.env.VITE_TUTOR_TRANSPORT) {
+    config.tutorTransport = process.env.VITE_TUTOR_TRANSPORT as TutorTransportKind;
+  }
+  if (process.env.VITE_TUTOR_WS_URL) {
+    config.tutorWebSocketUrl = process.env.VITE_TUTOR_WS_URL;
+  }
+  if (process.env.VITE_ATTACHMENT_BASE_URL) {
+    config.attachmentBaseUrl = process.env.VITE_ATTACHMENT_BASE_URL;
+  }
+
+  return config;
+};
+
+// Config Service class
+class ConfigService {
+  private envConfig: Partial<AppConfig> = readEnvConfig();
+  private overrides: Partial<AppConfig> = {};
+  private listeners: Set<(config: AppConfig) => void> = new Set();
+
+  constructor() {
+    this.overrides = this.loadOverrides();
+  }
+
+  // Load the in-app overrides from local storage
+  private loadOverrides(): Partial<AppConfig> {
+    if (typeof window === "undefined") return {};
+
+    try {
+      const stored = window.localStorage.getItem(OVERRIDES_STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as Partial<AppConfig>) : {};
+    } catch (error) {
+      console.error("[ConfigService] Error loading config overrides:", error);
+      return {};
+    }
+  }
+
+  // Get the validated configuration. Throws a ConfigError when a value is malformed.
+  getConfig(): AppConfig {
+    const envProblems = validateConfig(this.envConfig).map((problem) => `environment: ${problem}`);
+    const overrideProblems = validateConfig(this.overrides).map((problem) => `settings: ${problem}`);
+    const config = { ...DEFAULT_CONFIG, ...this.envConfig, ...this.overrides };
+    const problems = [...envProblems, ...overrideProblems, ...validateTransport(config)];
+
+    if (problems.length > 0) {
+      throw new ConfigError(problems);
+    }
+
+    return config;
+  }
+
+  // Get the in-app overrides
+  getOverrides(): Partial<AppConfig> {
+    return { ...this.overrides };
+  }
+
+  // Save in-app overrides. Empty values fall back to the environment.
+  setOverrides(overrides: Partial<AppConfig>): { success: boolean; error?: string } {
+    const cleaned: Partial<AppConfig> = {};
+    for (const [key, value] of Object.entries(overrides) as [keyof AppConfig, string | undefined][]) {
+      if (value !== undefined && value.trim() !== "") {
+        (cleaned as Record<string, string>)[key] = value.trim();
+      }
+    }
+
+    const problems = [
+      ...validateConfig(cleaned),
+      ...validateTransport({ ...DEFAULT_CONFIG, ...this.envConfig, ...cleaned }),
+    ];
+    if (problems.length > 0) {
+      return { success: false, error: new ConfigError(problems).message };
+    }
+
+    this.overrides = cleaned;
+    window.localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(cleaned));
+    console.log("[ConfigService] Saved config overrides");
+    this.notify();
+
+    return { success: true };
+  }
+
+  // Remove all in-app overrides
+  clearOverrides() {
+    this.overrides = {};
+    window.localStorage.removeItem(OVERRIDES_STORAGE_KEY);
+    this.notify();
+  }
+
+  // Subscribe to configuration changes. Returns an unsubscribe function.
+  subscribe(listener: (config: AppConfig) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify listeners of the new configuration
+  private notify() {
+    try {
+      const config = this.getConfig();
+      for (const listener of this.listeners) {
+        listener(config);
+      }
+    } catch (error) {
+      console.error("[ConfigService] Configuration is invalid:", error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const configService = new ConfigService();
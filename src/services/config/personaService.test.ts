@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { validatePersona } from "./personaService";
+
+const INBOX_ID = "a".repeat(64);
+
+describe("validatePersona", () => {
+  it("accepts a complete persona", () => {
+    expect(validatePersona({ id: "ana", name: "Ana", language: "es", inboxId: INBOX_ID }, 0)).toEqual([]);
+  });
+
+  it("reports entries that are not objects instead of throwing", () => {
+    expect(validatePersona(null, 0)).toEqual(["persona 1: must be an object"]);
+    expect(validatePersona("ana", 1)).toEqual(["persona 2: must be an object"]);
+    expect(validatePersona([], 2)).toEqual(["persona 3: must be an object"]);
+  });
+
+  it("reports fields that are not strings instead of throwing", () => {
+    expect(validatePersona({ id: 7, name: 5, language: ["es"], inboxId: INBOX_ID, description: 1 }, 0)).toEqual([
+      "persona 1: id must be 1 to 32 lowercase letters, digits or dashes",
+      "persona 1: name must be between 1 and 50 characters",
+      'persona 1: language must be a language tag such as "en" or "es-MX"',
+      "persona 1: description must be a string",
+    ]);
+  });
+});
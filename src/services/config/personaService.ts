@@ -0,0 +1,166 @@
+import { configService, ConfigError } from "./configService";
+
+// Types
+export interface TutorPersona {
+  id: string;
+  name: string;
+  avatarUrl?: string;
+  language: string;
+  description?: string;
+  inboxId: string;
+}
+
+export const DEFAULT_PERSONA_ID = "default";
+const ACTIVE_PERSONA_STORAGE_KEY = "scarlett-active-persona";
+
+// Check a persona definition and return a description of each problem. The definition comes from
+// JSON, so it may not even be an object.
+export const validatePersona = (value: unknown, index: number): string[] => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [`persona ${index + 1}: must be an object`];
+  }
+
+  const persona = value as Record<string, unknown>;
+  const problems: string[] = [];
+  const id = typeof persona.id === "string" ? persona.id : "";
+  const label = `persona ${id || index + 1}`;
+
+  if (!/^[a-z0-9-]{1,32}$/.test(id)) {
+    problems.push(`${label}: id must be 1 to 32 lowercase letters, digits or dashes`);
+  } else if (id === DEFAULT_PERSONA_ID) {
+    problems.push(`${label}: id "${DEFAULT_PERSONA_ID}" is reserved for the configured bot`);
+  }
+  if (typeof persona.name !== "string" || !persona.name.trim() || persona.name.trim().length > 50) {
+    problems.push(`${label}: name must be between 1 and 50 characters`);
+  }
+  if (typeof persona.language !== "string" || !/^[a-z]{2,3}(-[A-Za-z0-9]+)*$/.test(persona.language)) {
+    problems.push(`${label}: language must be a language tag such as "en" or "es-MX"`);
+  }
+  if (typeof persona.inboxId !== "string" || !/^[0-9a-f]{64}$/.test(persona.inboxId)) {
+    problems.push(`${label}: inbox id must be 64 lowercase hex characters`);
+  }
+  for (const field of ["avatarUrl", "description"]) {
+    if (persona[field] !== undefined && typeof persona[field] !== "string") {
+      problems.push(`${label}: ${field} must be a string`);
+    }
+  }
+
+  return problems;
+};
+
+// Read extra personas from the VITE_TUTOR_PERSONAS environment variable (a JSON array)
+const readEnvPersonas = (): { personas: TutorPersona[]; problems: string[] } => {
+  const raw = process.env.VITE_TUTOR_PERSONAS;
+  if (!raw) return { personas: [], problems: [] };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { personas: [], problems: ["environment: VITE_TUTOR_PERSONAS is not valid JSON"] };
+  }
+  if (!Array.isArray(parsed)) {
+    return { personas: [], problems: ["environment: VITE_TUTOR_PERSONAS must be a JSON array"] };
+  }
+
+  const problems: string[] = [];
+  const seenIds = new Set<string>();
+  parsed.forEach((persona: unknown, index) => {
+    const personaProblems = validatePersona(persona, index);
+    problems.push(...personaProblems.map((problem) => `environment: ${problem}`));
+    if (personaProblems.length > 0) return;
+
+    const { id } = persona as TutorPersona;
+    if (seenIds.has(id)) {
+      problems.push(`environment: persona id "${id}" is used more than once`);
+    }
+    seenIds.add(id);
+  });
+
+  return { personas: parsed as TutorPersona[], problems };
+};
+
+// Persona Service class
+class PersonaService {
+  private envPersonas = readEnvPersonas();
+  private activePersonaId: string = DEFAULT_PERSONA_ID;
+  private listeners: Set<(persona: TutorPersona) => void> = new Set();
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      this.activePersonaId = window.localStorage.getItem(ACTIVE_PERSONA_STORAGE_KEY) || DEFAULT_PERSONA_ID;
+    }
+
+    // The default persona follows the configured bot
+    configService.subscribe(() => this.notify());
+  }
+
+  // Get all personas, starting with the configured bot. Throws a ConfigError when a value is malformed.
+  getPersonas(): TutorPersona[] {
+    if (this.envPersonas.problems.length > 0) {
+      throw new ConfigError(this.envPersonas.problems);
+    }
+
+    const config = configService.getConfig();
+    const defaultPersona: TutorPersona = {
+      id: DEFAULT_PERSONA_ID,
+      name: config.botDisplayName,
+      language: "en",
+      description: "Conversation practice",
+      inboxId: config.botInboxId,
+    };
+
+    return [
+      defaultPersona,
+      ...this.envPersonas.personas.map((persona) => ({ ...persona, name: persona.name.trim() })),
+    ];
+  }
+
+  // Get a persona by id
+  getPersona(id: string): TutorPersona | undefined {
+    return this.getPersonas().find((persona) => persona.id === id);
+  }
+
+  // Get the persona the user is talking to, falling back to the default one
+  getActivePersona(): TutorPersona {
+    const personas = this.getPersonas();
+    return personas.find((persona) => persona.id === this.activePersonaId) ?? personas[0];
+  }
+
+  // Switch to another persona
+  setActivePersona(id: string): { success: boolean; error?: string } {
+    if (!this.getPersona(id)) {
+      return { success: false, error: `Unknown persona "${id}"` };
+    }
+
+    this.activePersonaId = id;
+    window.localStorage.setItem(ACTIVE_PERSONA_STORAGE_KEY, id);
+    console.log(`[PersonaService] Active persona: ${id}`);
+    this.notify();
+
+    return { success: true };
+  }
+
+  // Subscribe to active persona changes. Returns an unsubscribe function.
+  subscribe(listener: (persona: TutorPersona) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify listeners of the active persona
+  private notify() {
+    try {
+      const persona = this.getActivePersona();
+      for (const listener of this.listeners) {
+        listener(persona);
+      }
+    } catch (error) {
+      console.error("[PersonaService] Personas are invalid:", error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const personaService = new PersonaService();
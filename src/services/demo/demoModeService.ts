@@ -0,0 +1,30 @@
+const DEMO_MODE_STORAGE_KEY = "scarlett-demo-mode";
+
+// Address shown for the demo user, who has no wallet
+export const DEMO_USER_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Demo Mode Service class
+class DemoModeService {
+  // Check if the app runs against the simulated tutor instead of a wallet and XMTP
+  isEnabled(): boolean {
+    if (process.env.VITE_DEMO_MODE === "true") return true;
+    if (typeof window === "undefined") return false;
+
+    return window.localStorage.getItem(DEMO_MODE_STORAGE_KEY) === "true";
+  }
+
+  // Turn demo mode on for this browser
+  enable() {
+    console.log("[DemoModeService] Enabling demo mode");
+    window.localStorage.setItem(DEMO_MODE_STORAGE_KEY, "true");
+  }
+
+  // Turn demo mode off for this browser. VITE_DEMO_MODE keeps it on regardless.
+  disable() {
+    console.log("[DemoModeService] Disabling demo mode");
+    window.localStorage.removeItem(DEMO_MODE_STORAGE_KEY);
+  }
+}
+
+// Export a singleton instance
+export const demoModeService = new DemoModeService();
@@ -0,0 +1,349 @@
+import { SortDirection, type SafeListMessagesOptions } from "@xmtp/browser-sdk";
+import { ContentTypeId } from "@xmtp/content-type-primitives";
+import { ContentTypeAttachment } from "@xmtp/content-type-remote-attachment";
+import type {
+  MessageTransport,
+  TransportConversation,
+  TransportMessage,
+  TransportStream,
+} from "../xmtp/transport";
+import type { WordTimestamp, CharacterAlignment } from "../xmtp/tutorResponseCodec";
+import { personaService } from "../config/personaService";
+
+export const DEMO_USER_INBOX_ID = "demo-user";
+
+const ContentTypeText = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "text",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+const CANNED_REPLIES = [
+  "Nice try! Say it once more, a little slower this time.",
+  "Great pronunciation. Now try asking me a question.",
+  "I understood you perfectly. How was your day?",
+  "Almost there. Pay attention to the vowel in the second word.",
+];
+
+const SAMPLE_RATE = 16000;
+
+const roundSeconds = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+// Time each word of a reply as if it was spoken at a steady pace
+export const buildWordTimestamps = (text: string): WordTimestamp[] => {
+  let time = 0.2;
+
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => {
+      const start = time;
+      const end = start + 0.15 + word.length * 0.05;
+      time = end + 0.08;
+      return { text: word, start_time: roundSeconds(start), end_time: roundSeconds(end) };
+    });
+};
+
+// Build the character alignment that matches the word timestamps. Spaces fill the gaps between words.
+export const buildAlignment = (words: WordTimestamp[]): CharacterAlignment => {
+  const alignment: CharacterAlignment = {
+    characters: [],
+    character_start_times_seconds: [],
+    character_end_times_seconds: [],
+  };
+
+  words.forEach((word, index) => {
+    if (index > 0) {
+      alignment.characters.push(" ");
+      alignment.character_start_times_seconds.push(words[index - 1].end_time);
+      alignment.character_end_times_seconds.push(word.start_time);
+    }
+
+    const step = (word.end_time - word.start_time) / word.text.length;
+    [...word.text].forEach((character, i) => {
+      alignment.characters.push(character);
+      alignment.character_start_times_seconds.push(roundSeconds(word.start_time + i * step));
+      alignment.character_end_times_seconds.push(roundSeconds(word.start_time + (i + 1) * step));
+    });
+  });
+
+  return alignment;
+};
+
+// Synthesize a WAV file with a soft tone per word, so playback and highlighting have something to follow
+const synthesizeSpeech = (words: WordTimestamp[]): Uint8Array => {
+  const duration = (words[words.length - 1]?.end_time ?? 0) + 0.3;
+  const sampleCount = Math.ceil(duration * SAMPLE_RATE);
+  const buffer = new ArrayBuffer(44 + sampleCount * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  // 16-bit mono PCM header
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + sampleCount * 2, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, sampleCount * 2, true);
+
+  words.forEach((word, index) => {
+    const frequency = 180 + (index % 5) * 30;
+    const start = Math.floor(word.start_time * SAMPLE_RATE);
+    const end = Math.min(sampleCount, Math.floor(word.end_time * SAMPLE_RATE));
+
+    for (let i = start; i < end; i++) {
+      const envelope = Math.sin((Math.PI * (i - start)) / (end - start));
+      const sample = Math.sin((2 * Math.PI * frequency * (i - start)) / SAMPLE_RATE) * envelope * 0.25;
+      view.setInt16(44 + i * 2, Math.round(sample * 32767), true);
+    }
+  });
+
+  return new Uint8Array(buffer);
+};
+
+// An in-memory message stream that is fed by the simulated conversation
+class SimulatedStream implements TransportStream {
+  private queue: TransportMessage[] = [];
+  private waiting: ((result: IteratorResult<TransportMessage | undefined>) => void) | null = null;
+  private isDone: boolean = false;
+  private onClose: () => void;
+
+  constructor(onClose: () => void) {
+    this.onClose = onClose;
+  }
+
+  push(message: TransportMessage) {
+    if (this.isDone) return;
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: message, done: false });
+    } else {
+      this.queue.push(message);
+    }
+  }
+
+  next(): Promise<IteratorResult<TransportMessage | undefined>> {
+    const message = this.queue.shift();
+    if (message) {
+      return Promise.resolve({ value: message, done: false });
+    }
+    if (this.isDone) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.waiting = resolve;
+    });
+  }
+
+  async return(): Promise<IteratorResult<TransportMessage | undefined>> {
+    if (!this.isDone) {
+      this.isDone = true;
+      this.onClose();
+      this.waiting?.({ value: undefined, done: true });
+      this.waiting = null;
+    }
+
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
+
+// A conversation with a simulated tutor that answers every message with a canned reply
+class SimulatedConversation implements TransportConversation {
+  id: string;
+  private peerInboxId: string;
+  private history: TransportMessage[] = [];
+  private streams: Set<SimulatedStream> = new Set();
+  private timers: Set<number> = new Set();
+  private replyCount = 0;
+
+  constructor(peerInboxId: string) {
+    this.id = `demo-${peerInboxId}`;
+    this.peerInboxId = peerInboxId;
+    this.append(
+      peerInboxId,
+      `Hi, I'm ${this.getTutorName()}! Hold the microphone button or type a message to start practising.`,
+      ContentTypeText
+    );
+  }
+
+  async send(content: any, contentType: ContentTypeId = ContentTypeText): Promise<string> {
+    const message = this.append(DEMO_USER_INBOX_ID, content, contentType);
+    this.scheduleReply();
+    return message.id;
+  }
+
+  async sync(): Promise<void> {
+    // Everything is local, there is nothing to fetch
+  }
+
+  async messages(options: SafeListMessagesOptions = {}): Promise<TransportMessage[]> {
+    let messages = this.history.filter(
+      (message) =>
+        (options.sentAfterNs === undefined || message.sentAtNs > options.sentAfterNs) &&
+        (options.sentBeforeNs === undefined || message.sentAtNs < options.sentBeforeNs)
+    );
+
+    if (options.direction === SortDirection.Descending) {
+      messages = [...messages].reverse();
+    }
+    if (options.limit !== undefined) {
+      messages = messages.slice(0, Number(options.limit));
+    }
+
+    return messages;
+  }
+
+  async stream(): Promise<TransportStream> {
+    const stream = new SimulatedStream(() => this.streams.delete(stream));
+    this.streams.add(stream);
+    return stream;
+  }
+
+  // Stop pending replies and end all streams
+  close() {
+    for (const timer of this.timers) {
+      window.clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    for (const stream of this.streams) {
+      stream.return();
+    }
+  }
+
+  // Get the name of the persona this conversation stands in for
+  private getTutorName(): string {
+    try {
+      return personaService.getPersonas().find((persona) => persona.inboxId === this.peerInboxId)?.name ?? "your tutor";
+    } catch {
+      return "your tutor";
+    }
+  }
+
+  // Add a message to the history and push it to the open streams
+  private append(senderInboxId: string, content: any, contentType: ContentTypeId): TransportMessage {
+    // Keep send times strictly increasing so history cursors behave like on the network
+    const lastSentAtNs = this.history[this.history.length - 1]?.sentAtNs ?? 0n;
+    const now = BigInt(Date.now()) * 1000000n;
+
+    const message: TransportMessage = {
+      id: window.crypto.randomUUID(),
+      conversationId: this.id,
+      senderInboxId,
+      sentAtNs: now > lastSentAtNs ? now : lastSentAtNs + 1n,
+      contentType,
+      content,
+    };
+
+    this.history.push(message);
+    for (const stream of this.streams) {
+      stream.push(message);
+    }
+
+    return message;
+  }
+
+  // Run a callback after a delay, unless the conversation is closed first
+  private later(callback: () => void, delayMs: number) {
+    const timer = window.setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  // Answer with the next canned reply, split into a text half and an audio half like the real tutor
+  private scheduleReply() {
+    const text = CANNED_REPLIES[this.replyCount++ % CANNED_REPLIES.length];
+    const pairId = window.crypto.randomUUID();
+    const wordTimestamps = buildWordTimestamps(text);
+    const alignment = buildAlignment(wordTimestamps);
+
+    const sendText = () =>
+      this.append(
+        this.peerInboxId,
+        JSON.stringify({
+          message_type: "audio_response",
+          content: {
+            text,
+            word_timestamps: wordTimestamps,
+            alignment,
+            normalized_alignment: alignment,
+            pair_id: pairId,
+          },
+          pair_id: pairId,
+        }),
+        ContentTypeText
+      );
+
+    const sendAudio = () =>
+      this.append(
+        this.peerInboxId,
+        {
+          filename: `response-${pairId}.wav`,
+          mimeType: "audio/wav",
+          data: synthesizeSpeech(wordTimestamps),
+        },
+        ContentTypeAttachment
+      );
+
+    // The halves arrive separately and in either order
+    const [first, second] = Math.random() < 0.5 ? [sendText, sendAudio] : [sendAudio, sendText];
+    const thinkingDelayMs = 1200 + Math.random() * 1000;
+    this.later(first, thinkingDelayMs);
+    this.later(second, thinkingDelayMs + 300 + Math.random() * 900);
+  }
+}
+
+// Transport that runs the tutors in the browser, for demos without a wallet or network
+export class SimulatedTutorTransport implements MessageTransport {
+  readonly kind = "simulated";
+  readonly inboxId = DEMO_USER_INBOX_ID;
+  private conversations: Map<string, SimulatedConversation> = new Map();
+
+  // Simulated tutors always have a conversation, starting with a greeting
+  async findConversation(peerInboxId: string): Promise<TransportConversation | null> {
+    return this.createConversation(peerInboxId);
+  }
+
+  async createConversation(peerInboxId: string): Promise<TransportConversation> {
+    let conversation = this.conversations.get(peerInboxId);
+    if (!conversation) {
+      conversation = new SimulatedConversation(peerInboxId);
+      this.conversations.set(peerInboxId, conversation);
+    }
+
+    return conversation;
+  }
+
+  async syncConversations(): Promise<void> {
+    // Everything is local, there is nothing to fetch
+  }
+
+  close() {
+    for (const conversation of this.conversations.values()) {
+      conversation.close();
+    }
+    this.conversations.clear();
+  }
+}
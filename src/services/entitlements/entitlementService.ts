@@ -0,0 +1,320 @@
+import { readContract } from "wagmi/actions";
+import { erc721Abi } from "viem";
+import { authService } from "../silk/authService";
+import { wagmiConfig } from "../silk/wagmiConfig";
+import type { TutorResult } from "../tutor/tutorTransport";
+import { getAudioDuration } from "../audio/audioDuration";
+
+// Learners holding the membership token get the member plan, everyone else the free plan.
+// The token is configured with VITE_MEMBERSHIP_CONTRACT and VITE_MEMBERSHIP_CHAIN_ID, plus
+// VITE_MEMBERSHIP_TOKEN_ID when it is an ERC-1155 token rather than an ERC-721 collection.
+
+// Types
+export type PlanId = "free" | "member";
+
+export interface PlanLimits {
+  // Recordings that can be sent per day, or null for no limit
+  dailyVoiceTurns: number | null;
+  maxRecordingSeconds: number;
+}
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  limits: PlanLimits;
+}
+
+export interface EntitlementState {
+  plan: Plan;
+  voiceTurnsUsedToday: number;
+  // Null when the plan has no daily limit
+  voiceTurnsRemaining: number | null;
+  isChecking: boolean;
+}
+
+interface MembershipToken {
+  contract: `0x${string}`;
+  chainId: number;
+  tokenId?: bigint;
+}
+
+interface CachedPlan {
+  address: string;
+  plan: PlanId;
+  checkedAt: number;
+}
+
+interface VoiceUsage {
+  day: string;
+  count: number;
+}
+
+// Usage of every account that was used in this browser, so switching accounts does not reset it
+type VoiceUsageByAddress = Record<string, VoiceUsage>;
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: { id: "free", name: "Free", limits: { dailyVoiceTurns: 30, maxRecordingSeconds: 60 } },
+  member: { id: "member", name: "Member", limits: { dailyVoiceTurns: null, maxRecordingSeconds: 300 } },
+};
+
+const PLAN_CACHE_STORAGE_KEY = "scarlett-plan";
+const VOICE_USAGE_STORAGE_KEY = "scarlett-voice-usage-by-address";
+
+const erc1155BalanceOfAbi = [
+  {
+    type: "function",
+    name: "balanceOf",
+    stateMutability: "view",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "id", type: "uint256" },
+    ],
+    outputs: [{ type: "uint256" }],
+  },
+] as const;
+
+// Read the membership token from the environment. Returns null when none is configured or it is malformed.
+const readMembershipToken = (): MembershipToken | null => {
+  const contract = process.env.VITE_MEMBERSHIP_CONTRACT;
+  if (!contract) return null;
+
+  const chainId = Number(process.env.VITE_MEMBERSHIP_CHAIN_ID);
+  if (!/^0x[0-9a-fA-F]{40}$/.test(contract) || !Number.isInteger(chainId) || chainId <= 0) {
+    console.error("[EntitlementService] Membership token is misconfigured, everyone gets the free plan");
+    return null;
+  }
+
+  // BigInt() throws on anything but an integer, which must not stop the app from loading
+  const tokenId = process.env.VITE_MEMBERSHIP_TOKEN_ID?.trim();
+  if (tokenId && !/^(0x[0-9a-fA-F]+|[0-9]+)$/.test(tokenId)) {
+    console.error(`[EntitlementService] Membership token id "${tokenId}" is not an integer, everyone gets the free plan`);
+    return null;
+  }
+
+  return {
+    contract: contract as `0x${string}`,
+    chainId,
+    tokenId: tokenId ? BigInt(tokenId) : undefined,
+  };
+};
+
+// Get today's date in the learner's time zone, which is when the daily limit resets
+const getToday = (): string => new Date().toLocaleDateString("en-CA");
+
+// Entitlement Service class
+class EntitlementService {
+  private membershipToken: MembershipToken | null = readMembershipToken();
+  private plan: Plan = PLANS.free;
+  private isChecking: boolean = false;
+  private cacheDurationMs = 60 * 60 * 1000;
+  private listeners: Set<(state: EntitlementState) => void> = new Set();
+
+  constructor() {
+    // The plan belongs to the account, so check again whenever another one connects
+    let lastAddress = "";
+    authService.subscribe((state) => {
+      if (state.address === lastAddress) return;
+      lastAddress = state.address;
+      this.refresh();
+    });
+  }
+
+  // Get the current state
+  getState(): EntitlementState {
+    const used = this.getVoiceUsage().count;
+    const limit = this.plan.limits.dailyVoiceTurns;
+    return {
+      plan: this.plan,
+      voiceTurnsUsedToday: used,
+      voiceTurnsRemaining: limit === null ? null : Math.max(0, limit - used),
+      isChecking: this.isChecking,
+    };
+  }
+
+  // Subscribe to state changes. Returns an unsubscribe function.
+  subscribe(listener: (state: EntitlementState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify listeners of the current state
+  private notify() {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+
+  // Determine the plan of the connected account. A recent result is reused unless forced.
+  async refresh(force: boolean = false): Promise<Plan> {
+    const address = authService.getUserAddress();
+    if (!address || !this.membershipToken) {
+      this.plan = PLANS.free;
+      this.notify();
+      return this.plan;
+    }
+
+    const cached = this.loadCachedPlan(address);
+    if (cached && !force && Date.now() - cached.checkedAt < this.cacheDurationMs) {
+      this.plan = PLANS[cached.plan];
+      this.notify();
+      return this.plan;
+    }
+
+    this.isChecking = true;
+    this.notify();
+
+    try {
+      const balance = await this.readMembershipBalance(this.membershipToken, address);
+      const planId: PlanId = balance > 0n ? "member" : "free";
+      console.log(`[EntitlementService] Membership balance of ${address}: ${balance}, plan: ${planId}`);
+
+      // The account may have changed while the chain was read
+      if (address === authService.getUserAddress()) {
+        this.plan = PLANS[planId];
+        this.saveCachedPlan({ address, plan: planId, checkedAt: Date.now() });
+      }
+    } catch (error) {
+      // Keep the last known plan rather than downgrading a member because a node is unreachable
+      console.error("[EntitlementService] Error reading the membership token:", error);
+      if (address === authService.getUserAddress()) {
+        this.plan = cached ? PLANS[cached.plan] : PLANS.free;
+      }
+    } finally {
+      this.isChecking = false;
+      this.notify();
+    }
+
+    return this.plan;
+  }
+
+  // Read how many membership tokens an account holds
+  private async readMembershipBalance(token: MembershipToken, address: string): Promise<bigint> {
+    const account = address as `0x${string}`;
+
+    if (token.tokenId !== undefined) {
+      return readContract(wagmiConfig, {
+        chainId: token.chainId,
+        address: token.contract,
+        abi: erc1155BalanceOfAbi,
+        functionName: "balanceOf",
+        args: [account, token.tokenId],
+      });
+    }
+
+    return readContract(wagmiConfig, {
+      chainId: token.chainId,
+      address: token.contract,
+      abi: erc721Abi,
+      functionName: "balanceOf",
+      args: [account],
+    });
+  }
+
+  // Check if another recording can be sent today
+  checkVoiceTurn(): TutorResult {
+    const { voiceTurnsRemaining } = this.getState();
+    if (voiceTurnsRemaining === 0) {
+      return {
+        success: false,
+        error: `You have used all ${this.plan.limits.dailyVoiceTurns} voice turns of the ${this.plan.name} plan for today`,
+        retryable: false,
+      };
+    }
+    return { success: true };
+  }
+
+  // Check that a recording is not longer than the plan allows. The recorder stops at the limit,
+  // so this only catches recordings that did not come from it, with a second of slack for timers.
+  // Some browsers cannot decode their own recordings; those are sent, relying on the recorder's limit.
+  async checkRecordingLength(audio: Blob): Promise<TutorResult> {
+    const maxSeconds = this.plan.limits.maxRecordingSeconds;
+
+    let duration: number;
+    try {
+      duration = await getAudioDuration(audio);
+    } catch (error) {
+      console.warn("[EntitlementService] Could not read the recording length, sending it anyway:", error);
+      return { success: true };
+    }
+
+    if (duration > maxSeconds + 1) {
+      return {
+        success: false,
+        error: `Recordings on the ${this.plan.name} plan can be up to ${maxSeconds} seconds long`,
+        retryable: false,
+      };
+    }
+    return { success: true };
+  }
+
+  // Count a sent recording against today's limit
+  recordVoiceTurn() {
+    const address = authService.getUserAddress().toLowerCase();
+    const usageByAddress = this.loadVoiceUsage();
+    const usage = this.getVoiceUsage(usageByAddress);
+    usageByAddress[address] = { day: usage.day, count: usage.count + 1 };
+    this.saveVoiceUsage(usageByAddress);
+    this.notify();
+  }
+
+  // Get the recordings sent today by the connected account
+  private getVoiceUsage(usageByAddress: VoiceUsageByAddress = this.loadVoiceUsage()): VoiceUsage {
+    const today = getToday();
+    const usage = usageByAddress[authService.getUserAddress().toLowerCase()];
+    return usage && usage.day === today ? usage : { day: today, count: 0 };
+  }
+
+  // Load the usage of all accounts
+  private loadVoiceUsage(): VoiceUsageByAddress {
+    try {
+      const stored = window.localStorage.getItem(VOICE_USAGE_STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : null;
+      return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
+        ? (parsed as VoiceUsageByAddress)
+        : {};
+    } catch (error) {
+      console.error("[EntitlementService] Error loading voice usage:", error);
+      return {};
+    }
+  }
+
+  // Store the usage of all accounts, dropping earlier days
+  private saveVoiceUsage(usageByAddress: VoiceUsageByAddress) {
+    const today = getToday();
+    const current = Object.fromEntries(
+      Object.entries(usageByAddress).filter(([, usage]) => usage?.day === today)
+    );
+
+    try {
+      window.localStorage.setItem(VOICE_USAGE_STORAGE_KEY, JSON.stringify(current));
+    } catch (error) {
+      console.warn("[EntitlementService] Could not store voice usage:", error);
+    }
+  }
+
+  // Load the plan last determined for an account
+  private loadCachedPlan(address: string): CachedPlan | null {
+    try {
+      const stored = window.localStorage.getItem(PLAN_CACHE_STORAGE_KEY);
+      const cached = stored ? (JSON.parse(stored) as CachedPlan) : null;
+      return cached && cached.address === address && cached.plan in PLANS ? cached : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Remember the plan determined for an account
+  private saveCachedPlan(cached: CachedPlan) {
+    try {
+      window.localStorage.setItem(PLAN_CACHE_STORAGE_KEY, JSON.stringify(cached));
+    } catch (error) {
+      console.warn("[EntitlementService] Could not store the plan:", error);
+    }
+  }
+}
+
+// Export a singleton instance
+export const entitlementService = new EntitlementService();
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  transition,
+  initialOnboardingState,
+  getOnboardingAddress,
+  type OnboardingState,
+  type OnboardingEvent,
+  type OnboardingStatus,
+} from "./onboardingMachine";
+
+const ADDRESS = "0x1111111111111111111111111111111111111111";
+const OTHER_ADDRESS = "0x2222222222222222222222222222222222222222";
+const DEMO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// One state of each status, with an address where the status carries one
+const states: Record<OnboardingStatus, OnboardingState> = {
+  initializing: { status: "initializing" },
+  walletNeeded: { status: "walletNeeded" },
+  walletConnecting: { status: "walletConnecting" },
+  xmtpNeeded: { status: "xmtpNeeded", address: ADDRESS },
+  xmtpConnecting: { status: "xmtpConnecting", address: ADDRESS },
+  ready: { status: "ready", address: ADDRESS },
+  error: { status: "error", step: "xmtp", error: "Failed", address: ADDRESS },
+};
+
+// One event of each type
+const events: Record<OnboardingEvent["type"], OnboardingEvent> = {
+  INITIALIZED: { type: "INITIALIZED", address: ADDRESS },
+  CONNECT_WALLET: { type: "CONNECT_WALLET" },
+  WALLET_CONNECTED: { type: "WALLET_CONNECTED", address: ADDRESS },
+  WALLET_FAILED: { type: "WALLET_FAILED", error: "Rejected" },
+  CONNECT_XMTP: { type: "CONNECT_XMTP" },
+  XMTP_CONNECTED: { type: "XMTP_CONNECTED" },
+  XMTP_FAILED: { type: "XMTP_FAILED", error: "Unreachable" },
+  START_DEMO: { type: "START_DEMO", address: DEMO_ADDRESS },
+  WALLET_CHANGED: { type: "WALLET_CHANGED", address: OTHER_ADDRESS },
+  SETTINGS_CHANGED: { type: "SETTINGS_CHANGED" },
+  RETRY: { type: "RETRY" },
+  BACK: { type: "BACK" },
+  LOGOUT: { type: "LOGOUT" },
+};
+
+// The state each pair leads to. Pairs that are not listed leave the state unchanged.
+const expected: Partial<Record<OnboardingStatus, Partial<Record<OnboardingEvent["type"], OnboardingState>>>> = {
+  initializing: {
+    INITIALIZED: { status: "xmtpNeeded", address: ADDRESS },
+    START_DEMO: { status: "xmtpConnecting", address: DEMO_ADDRESS },
+  },
+  walletNeeded: {
+    CONNECT_WALLET: { status: "walletConnecting" },
+    START_DEMO: { status: "xmtpConnecting", address: DEMO_ADDRESS },
+    LOGOUT: { status: "walletNeeded" },
+  },
+  walletConnecting: {
+    WALLET_CONNECTED: { status: "xmtpNeeded", address: ADDRESS },
+    WALLET_FAILED: { status: "error", step: "wallet", error: "Rejected" },
+    LOGOUT: { status: "walletNeeded" },
+  },
+  xmtpNeeded: {
+    CONNECT_XMTP: { status: "xmtpConnecting", address: ADDRESS },
+    BACK: { status: "walletNeeded" },
+    WALLET_CHANGED: { status: "xmtpNeeded", address: OTHER_ADDRESS },
+    LOGOUT: { status: "walletNeeded" },
+  },
+  xmtpConnecting: {
+    XMTP_CONNECTED: { status: "ready", address: ADDRESS },
+    XMTP_FAILED: { status: "error", step: "xmtp", error: "Unreachable", address: ADDRESS },
+    WALLET_CHANGED: { status: "xmtpNeeded", address: OTHER_ADDRESS },
+    LOGOUT: { status: "walletNeeded" },
+  },
+  ready: {
+    SETTINGS_CHANGED: { status: "xmtpNeeded", address: ADDRESS },
+    WALLET_CHANGED: { status: "xmtpNeeded", address: OTHER_ADDRESS },
+    LOGOUT: { status: "walletNeeded" },
+  },
+  error: {
+    RETRY: { status: "xmtpConnecting", address: ADDRESS },
+    BACK: { status: "xmtpNeeded", address: ADDRESS },
+    START_DEMO: { status: "xmtpConnecting", address: DEMO_ADDRESS },
+    WALLET_CHANGED: { status: "xmtpNeeded", address: OTHER_ADDRESS },
+    LOGOUT: { status: "walletNeeded" },
+  },
+};
+
+describe("transition", () => {
+  for (const [status, state] of Object.entries(states) as [OnboardingStatus, OnboardingState][]) {
+    describe(`from ${status}`, () => {
+      for (const [type, event] of Object.entries(events) as [OnboardingEvent["type"], OnboardingEvent][]) {
+        const next = expected[status]?.[type];
+
+        if (next) {
+          it(`goes to ${next.status} on ${type}`, () => {
+            expect(transition(state, event)).toEqual(next);
+          });
+        } else {
+          it(`ignores ${type}`, () => {
+            expect(transition(state, event)).toBe(state);
+          });
+        }
+      }
+    });
+  }
+
+  it("starts out initializing", () => {
+    expect(initialOnboardingState).toEqual({ status: "initializing" });
+  });
+
+  it("asks for a wallet when none was restored", () => {
+    expect(transition(states.initializing, { type: "INITIALIZED" })).toEqual({ status: "walletNeeded" });
+  });
+
+  it("retries a failed wallet step by connecting the wallet again", () => {
+    const failed: OnboardingState = { status: "error", step: "wallet", error: "Rejected" };
+    expect(transition(failed, { type: "RETRY" })).toEqual({ status: "walletConnecting" });
+  });
+
+  it("goes back to choosing a wallet from a failed wallet step", () => {
+    const failed: OnboardingState = { status: "error", step: "wallet", error: "Rejected" };
+    expect(transition(failed, { type: "BACK" })).toEqual({ status: "walletNeeded" });
+  });
+
+  it("keeps that the stored XMTP key could not be unlocked", () => {
+    const failed = transition(states.xmtpConnecting, { type: "XMTP_FAILED", error: "Locked", keyUnlockFailed: true });
+    expect(failed).toEqual({ status: "error", step: "xmtp", error: "Locked", address: ADDRESS, keyUnlockFailed: true });
+    expect(transition(failed, { type: "RETRY" })).toEqual({ status: "xmtpConnecting", address: ADDRESS });
+  });
+
+  it("ignores a wallet change to the same address", () => {
+    expect(transition(states.ready, { type: "WALLET_CHANGED", address: ADDRESS })).toBe(states.ready);
+  });
+
+  it("asks for a wallet when the wallet disconnects", () => {
+    expect(transition(states.ready, { type: "WALLET_CHANGED" })).toEqual({ status: "walletNeeded" });
+  });
+});
+
+describe("getOnboardingAddress", () => {
+  it("returns the address of states that have one", () => {
+    expect(getOnboardingAddress(states.ready)).toBe(ADDRESS);
+    expect(getOnboardingAddress(states.error)).toBe(ADDRESS);
+  });
+
+  it("returns undefined for states without an address", () => {
+    expect(getOnboardingAddress(states.walletNeeded)).toBeUndefined();
+    expect(getOnboardingAddress(states.initializing)).toBeUndefined();
+  });
+});
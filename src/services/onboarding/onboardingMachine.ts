@@ -0,0 +1,136 @@
+// Onboarding state machine. Every screen before the chat is derived from this state, and every
+// change goes through transition(), which has no side effects so it can be tested on its own.
+//
+// initializing → walletNeeded → walletConnecting → xmtpNeeded → xmtpConnecting → ready
+// Any connecting step can fail into error, from which the step can be retried or left with BACK.
+// Connecting steps cannot be left while the wallet or the tutor connection is still answering.
+
+// Types
+export type OnboardingStep = "wallet" | "xmtp";
+
+export type OnboardingState =
+  | { status: "initializing" }
+  | { status: "walletNeeded" }
+  | { status: "walletConnecting" }
+  | { status: "xmtpNeeded"; address: string }
+  | { status: "xmtpConnecting"; address: string }
+  | { status: "ready"; address: string }
+  | { status: "error"; step: OnboardingStep; error: string; address?: string; keyUnlockFailed?: boolean };
+
+export type OnboardingStatus = OnboardingState["status"];
+
+export type OnboardingEvent =
+  // The auth service finished initializing, with the address of a restored wallet session if any
+  | { type: "INITIALIZED"; address?: string }
+  | { type: "CONNECT_WALLET" }
+  | { type: "WALLET_CONNECTED"; address: string }
+  | { type: "WALLET_FAILED"; error: string }
+  | { type: "CONNECT_XMTP" }
+  | { type: "XMTP_CONNECTED" }
+  // keyUnlockFailed when the stored XMTP key has to be reset before connecting can work
+  | { type: "XMTP_FAILED"; error: string; keyUnlockFailed?: boolean }
+  // Skip the wallet and talk to the simulated tutor with a placeholder address
+  | { type: "START_DEMO"; address: string }
+  // The wallet switched accounts or disconnected outside of the app
+  | { type: "WALLET_CHANGED"; address?: string }
+  // The tutor settings changed, so the tutor connection has to be made again
+  | { type: "SETTINGS_CHANGED" }
+  | { type: "RETRY" }
+  | { type: "BACK" }
+  | { type: "LOGOUT" };
+
+export const initialOnboardingState: OnboardingState = { status: "initializing" };
+
+// Get the wallet address known in a state, if any
+export const getOnboardingAddress = (state: OnboardingState): string | undefined =>
+  "address" in state ? state.address : undefined;
+
+// Apply an event to a state. Events that do not apply to the current state leave it unchanged.
+export const transition = (state: OnboardingState, event: OnboardingEvent): OnboardingState => {
+  // These apply in every state
+  switch (event.type) {
+    case "LOGOUT":
+      return state.status === "initializing" ? state : { status: "walletNeeded" };
+    case "WALLET_CHANGED": {
+      if (state.status === "initializing" || state.status === "walletNeeded" || state.status === "walletConnecting") {
+        return state;
+      }
+      if (event.address === getOnboardingAddress(state)) return state;
+      // A new account needs its own tutor connection
+      return event.address ? { status: "xmtpNeeded", address: event.address } : { status: "walletNeeded" };
+    }
+  }
+
+  switch (state.status) {
+    case "initializing":
+      switch (event.type) {
+        case "INITIALIZED":
+          return event.address ? { status: "xmtpNeeded", address: event.address } : { status: "walletNeeded" };
+        case "START_DEMO":
+          return { status: "xmtpConnecting", address: event.address };
+      }
+      return state;
+
+    case "walletNeeded":
+      switch (event.type) {
+        case "CONNECT_WALLET":
+          return { status: "walletConnecting" };
+        case "START_DEMO":
+          return { status: "xmtpConnecting", address: event.address };
+      }
+      return state;
+
+    case "walletConnecting":
+      switch (event.type) {
+        case "WALLET_CONNECTED":
+          return { status: "xmtpNeeded", address: event.address };
+        case "WALLET_FAILED":
+          return { status: "error", step: "wallet", error: event.error };
+      }
+      return state;
+
+    case "xmtpNeeded":
+      switch (event.type) {
+        case "CONNECT_XMTP":
+          return { status: "xmtpConnecting", address: state.address };
+        case "BACK":
+          return { status: "walletNeeded" };
+      }
+      return state;
+
+    case "xmtpConnecting":
+      switch (event.type) {
+        case "XMTP_CONNECTED":
+          return { status: "ready", address: state.address };
+        case "XMTP_FAILED":
+          return event.keyUnlockFailed
+            ? { status: "error", step: "xmtp", error: event.error, address: state.address, keyUnlockFailed: true }
+            : { status: "error", step: "xmtp", error: event.error, address: state.address };
+      }
+      return state;
+
+    case "ready":
+      switch (event.type) {
+        case "SETTINGS_CHANGED":
+          return { status: "xmtpNeeded", address: state.address };
+      }
+      return state;
+
+    case "error":
+      switch (event.type) {
+        case "RETRY":
+          if (state.step === "xmtp" && state.address) {
+            return { status: "xmtpConnecting", address: state.address };
+          }
+          return { status: "walletConnecting" };
+        case "BACK":
+          if (state.step === "xmtp" && state.address) {
+            return { status: "xmtpNeeded", address: state.address };
+          }
+          return { status: "walletNeeded" };
+        case "START_DEMO":
+          return { status: "xmtpConnecting", address: event.address };
+      }
+      return state;
+  }
+};
@@ -0,0 +1,36 @@
+import { ethers } from "ethers";
+
+// Types
+// Externally owned accounts sign with a key, smart-contract wallets verify signatures in contract code
+export type AccountType = "EOA" | "SCW";
+
+// Magic value returned by EIP-1271 isValidSignature for a valid signature
+const EIP1271_MAGIC_VALUE = "0x1626ba7e";
+const EIP1271_ABI = ["function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)"];
+
+// Detect the account type from the code deployed at the address on the provider's chain.
+// Throws when the chain cannot be reached, since guessing wrong would create an unverifiable identity.
+export const detectAccountType = async (
+  provider: ethers.providers.Provider,
+  address: string
+): Promise<AccountType> => {
+  const code = await provider.getCode(address);
+  return code && code !== "0x" ? "SCW" : "EOA";
+};
+
+// Check a personal_sign signature of a smart-contract wallet with EIP-1271
+export const isValidContractSignature = async (
+  provider: ethers.providers.Provider,
+  address: string,
+  message: string,
+  signature: string
+): Promise<boolean> => {
+  try {
+    const contract = new ethers.Contract(address, EIP1271_ABI, provider);
+    const result: string = await contract.isValidSignature(ethers.utils.hashMessage(message), signature);
+    return result.toLowerCase() === EIP1271_MAGIC_VALUE;
+  } catch (error) {
+    console.error("[AccountType] Error checking the contract signature:", error);
+    return false;
+  }
+};
@@ -1,5 +1,7 @@
 import { ethers } from "ethers";
 import { initSilk } from "@silk-wallet/silk-wallet-sdk";
+import { createLocalWallets, getLocalRpcUrl, isLocalKeyAuthEnabled, LocalAccount } from "./localAccounts";
+import { wagmiConfig } from "./wagmiConfig";
 
 // Types
 export interface AuthResult {
@@ -8,6 +10,45 @@ export interface AuthResult {
   error?: string;
 }
 
+// The kind of wallet the user logged in with, remembered to restore the session on reload.
+// "local" signs with a development key from the environment, see localAccounts.
+export type WalletProviderType = "silk" | "injected" | "walletconnect" | "local";
+
+const PROVIDER_TYPE_STORAGE_KEY = "scarlett-wallet-provider";
+const LOCAL_ACCOUNT_STORAGE_KEY = "scarlett-local-account";
+
+export interface AuthState {
+  isInitialized: boolean;
+  isConnected: boolean;
+  address: string;
+  // The development test account in use, if any
+  localAccountIndex: number | null;
+}
+
+// window.ethereum is declared by viem. The Silk provider is also made available as window.silk.
+declare global {
+  interface Window {
+    silk?: ReturnType<typeof initSilk>;
+  }
+}
+
+// Check that a connector's provider can be wrapped in an ethers provider
+export const isExternalProvider = (value: unknown): value is ethers.providers.ExternalProvider =>
+  typeof value === "object" && value !== null && typeof (value as { request?: unknown }).request === "function";
+
+// The parts of an EIP-1193 provider used to follow the wallet's events
+interface EventEmittingProvider {
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+  on: (event: string, listener: (...args: never[]) => void) => void;
+  removeListener: (event: string, listener: (...args: never[]) => void) => void;
+}
+
+// Check that a provider emits events, which not every wallet's provider does
+const isEventEmittingProvider = (value: unknown): value is EventEmittingProvider =>
+  isExternalProvider(value) &&
+  typeof (value as { on?: unknown }).on === "function" &&
+  typeof (value as { removeListener?: unknown }).removeListener === "function";
+
 // Auth Service class
 class AuthService {
   private provider: ethers.providers.Web3Provider | null = null;
@@ -17,6 +58,11 @@ class AuthService {
   private silkProvider: any = null;
   private initializationPromise: Promise<void>;
   private initializationComplete: boolean = false;
+  private listeners: Set<(state: AuthState) => void> = new Set();
+  // The EIP-1193 provider whose account and chain events we follow
+  private watchedProvider: EventEmittingProvider | null = null;
+  private localWallets: ethers.Wallet[] | null = null;
+  private localAccountIndex: number | null = null;
 
   constructor() {
     console.log("[AuthService] Initializing");
@@ -39,7 +85,6 @@ class AuthService {
       
       // Make it globally available
       if (typeof window !== 'undefined') {
-        // @ts-ignore
         window.silk = this.silkProvider;
         console.log("[AuthService] Silk provider attached to window");
         
@@ -50,6 +95,7 @@ class AuthService {
       console.error("[AuthService] Error initializing Silk:", err);
     } finally {
       this.initializationComplete = true;
+      this.notify();
     }
   }
 
@@ -67,6 +113,30 @@ class AuthService {
   private async checkExistingConnection(): Promise<void> {
     console.log("[AuthService] Checking for existing wallet connection");
     
+    const providerType = this.getProviderType();
+    console.log(`[AuthService] Last used wallet provider: ${providerType ?? "none"}`);
+    
+    // Silk keeps its own session, which can be picked up without showing the login
+    if (providerType === "silk" && await this.restoreSilkSession()) {
+      return;
+    }
+    
+    // Local keys need no approval, so the last test account is simply used again
+    if (providerType === "local") {
+      if (isLocalKeyAuthEnabled()) {
+        await this.connectWithLocalKey(this.getStoredLocalAccountIndex());
+      }
+      return;
+    }
+    
+    // WalletConnect keeps its session in the wagmi connector. An injected wallet must not be mistaken for it.
+    if (providerType === "walletconnect") {
+      if (!(await this.restoreWalletConnectSession())) {
+        this.setProviderType(null);
+      }
+      return;
+    }
+    
     try {
       // Check for injected provider (MetaMask, etc.)
       if (window.ethereum) {
@@ -89,6 +159,8 @@ class AuthService {
           
           // Set authenticated
           this.isAuthenticated = true;
+          this.watchProvider();
+          this.notify();
           
           console.log(`[AuthService] Restored connection with address: ${this.userAddress}`);
         } else {
@@ -102,6 +174,189 @@ class AuthService {
     }
   }
 
+  // Get the current state, without logging like isConnected() does
+  getState(): AuthState {
+    return {
+      isInitialized: this.initializationComplete,
+      isConnected: this.isAuthenticated && !!this.userAddress,
+      address: this.userAddress,
+      localAccountIndex: this.localAccountIndex,
+    };
+  }
+
+  // Subscribe to state changes. Returns an unsubscribe function.
+  subscribe(listener: (state: AuthState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify listeners of the current state
+  private notify() {
+    const state = this.getState();
+    for (const listener of this.listeners) {
+      listener(state);
+    }
+  }
+
+  // Follow account, chain and disconnect events of the provider behind the current connection
+  private watchProvider() {
+    const external = this.provider?.provider;
+    if (external === this.watchedProvider) return;
+    
+    this.unwatchProvider();
+    if (!isEventEmittingProvider(external)) {
+      console.log("[AuthService] Provider does not emit events, not watching it");
+      return;
+    }
+    
+    external.on("accountsChanged", this.handleAccountsChanged);
+    external.on("chainChanged", this.handleChainChanged);
+    external.on("disconnect", this.handleProviderDisconnect);
+    this.watchedProvider = external;
+    console.log("[AuthService] Watching provider events");
+  }
+
+  // Stop following the events of the watched provider
+  private unwatchProvider() {
+    const external = this.watchedProvider;
+    if (!external) return;
+    
+    external.removeListener("accountsChanged", this.handleAccountsChanged);
+    external.removeListener("chainChanged", this.handleChainChanged);
+    external.removeListener("disconnect", this.handleProviderDisconnect);
+    this.watchedProvider = null;
+  }
+
+  // The wallet switched accounts, or locked itself when the list is empty
+  private handleAccountsChanged = (accounts: string[]) => {
+    if (!Array.isArray(accounts) || accounts.length === 0) {
+      console.log("[AuthService] Wallet has no accounts anymore");
+      this.disconnect();
+      return;
+    }
+    
+    const address = ethers.utils.getAddress(accounts[0]);
+    if (address === this.userAddress) return;
+    
+    console.log(`[AuthService] Wallet switched to account: ${address}`);
+    this.resetProvider();
+    this.userAddress = address;
+    this.notify();
+  };
+
+  // ethers keeps the network it saw first, so the provider is recreated for the new chain
+  private handleChainChanged = (chainId: string) => {
+    console.log(`[AuthService] Wallet switched to chain: ${chainId}`);
+    this.resetProvider();
+    this.notify();
+  };
+
+  // The wallet ended the session
+  private handleProviderDisconnect = (error?: unknown) => {
+    console.log("[AuthService] Wallet disconnected the session:", error);
+    this.disconnect();
+  };
+
+  // Create the ethers provider and signer again for the watched provider
+  private resetProvider() {
+    if (!this.watchedProvider) return;
+    this.provider = new ethers.providers.Web3Provider(this.watchedProvider);
+    this.signer = this.provider.getSigner();
+  }
+
+  // Pick up an existing Silk session. Returns whether the user is still logged in to Silk.
+  private async restoreSilkSession(): Promise<boolean> {
+    if (!this.silkProvider) return false;
+    
+    try {
+      // Answers without UI: the accounts of the current session, or none when logged out
+      const accounts = await this.silkProvider.request({ method: 'eth_accounts' });
+      
+      if (!Array.isArray(accounts) || accounts.length === 0) {
+        console.log("[AuthService] Silk session has expired");
+        return false;
+      }
+      
+      this.provider = new ethers.providers.Web3Provider(this.silkProvider);
+      this.signer = this.provider.getSigner();
+      this.userAddress = await this.signer.getAddress();
+      this.isAuthenticated = true;
+      
+      // Same as after logging in with the selector
+      window.ethereum = this.silkProvider;
+      
+      console.log(`[AuthService] Restored Silk session with address: ${this.userAddress}`);
+      this.watchProvider();
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error("[AuthService] Error restoring Silk session:", error);
+      return false;
+    }
+  }
+
+  // Pick up the session of the WalletConnect connector. Returns whether the wallet is still connected.
+  private async restoreWalletConnectSession(): Promise<boolean> {
+    const connector = wagmiConfig.connectors.find((conn) => conn.id === "walletConnect");
+    if (!connector) return false;
+    
+    try {
+      // Restores the stored session without showing the QR code, and is false when it has ended
+      if (!(await connector.isAuthorized())) {
+        console.log("[AuthService] WalletConnect session has expired");
+        return false;
+      }
+      
+      const externalProvider = await connector.getProvider();
+      if (!isExternalProvider(externalProvider)) {
+        console.error("[AuthService] WalletConnect connector has no EIP-1193 provider");
+        return false;
+      }
+      
+      this.provider = new ethers.providers.Web3Provider(externalProvider);
+      this.signer = this.provider.getSigner();
+      this.userAddress = await this.signer.getAddress();
+      this.isAuthenticated = true;
+      
+      console.log(`[AuthService] Restored WalletConnect session with address: ${this.userAddress}`);
+      this.watchProvider();
+      this.notify();
+      return true;
+    } catch (error) {
+      console.error("[AuthService] Error restoring WalletConnect session:", error);
+      return false;
+    }
+  }
+
+  // Get the kind of wallet the user last logged in with
+  getProviderType(): WalletProviderType | null {
+    try {
+      const value = window.localStorage.getItem(PROVIDER_TYPE_STORAGE_KEY);
+      return value === "silk" || value === "injected" || value === "walletconnect" || value === "local" ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Remember the kind of wallet the user logged in with
+  private setProviderType(providerType: WalletProviderType | null) {
+    if (providerType !== "local") {
+      this.localAccountIndex = null;
+    }
+    
+    try {
+      if (providerType) {
+        window.localStorage.setItem(PROVIDER_TYPE_STORAGE_KEY, providerType);
+      } else {
+        window.localStorage.removeItem(PROVIDER_TYPE_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn("[AuthService] Could not store the wallet provider type:", error);
+    }
+  }
+
   // Get Silk provider
   getSilkProvider(): any {
     return this.silkProvider;
@@ -147,6 +402,7 @@ class AuthService {
       // Login with Silk
       console.log("[AuthService] Calling silkProvider.login()");
       await this.silkProvider.login();
+      this.setProviderType("silk");
       console.log("[AuthService] Silk login successful");
       
       // Create provider
@@ -164,6 +420,8 @@ class AuthService {
       // Set authenticated
       this.isAuthenticated = true;
       console.log("[AuthService] Set isAuthenticated to true");
+      this.watchProvider();
+      this.notify();
       
       return { success: true, address: this.userAddress };
     } catch (error) {
@@ -195,6 +453,7 @@ class AuthService {
       console.log("[AuthService] Requesting accounts from injected provider");
       await window.ethereum.request({ method: 'eth_requestAccounts' });
       console.log("[AuthService] Account request successful");
+      this.setProviderType("injected");
       
       // Get signer
       this.signer = this.provider.getSigner();
@@ -207,6 +466,8 @@ class AuthService {
       // Set authenticated
       this.isAuthenticated = true;
       console.log("[AuthService] Set isAuthenticated to true");
+      this.watchProvider();
+      this.notify();
       
       return { success: true, address: this.userAddress };
     } catch (error) {
@@ -225,6 +486,47 @@ class AuthService {
     }
   }
 
+  // Connect with the EIP-1193 provider of a connected wagmi connector (injected, WalletConnect, ...).
+  // The signer comes from that provider, so signatures go to the wallet the user picked.
+  async connectWithProvider(
+    externalProvider: ethers.providers.ExternalProvider,
+    walletName: string,
+    providerType: WalletProviderType
+  ): Promise<AuthResult> {
+    console.log(`[AuthService] Connecting with ${walletName} provider...`);
+    try {
+      // Create provider
+      this.provider = new ethers.providers.Web3Provider(externalProvider);
+      console.log(`[AuthService] Created ethers provider from ${walletName}`);
+      
+      // Get signer
+      this.signer = this.provider.getSigner();
+      console.log("[AuthService] Got signer from provider");
+      
+      // Get user address
+      this.userAddress = await this.signer.getAddress();
+      console.log(`[AuthService] Got user address: ${this.userAddress}`);
+      
+      // Set authenticated
+      this.isAuthenticated = true;
+      console.log("[AuthService] Set isAuthenticated to true");
+      this.setProviderType(providerType);
+      this.watchProvider();
+      this.notify();
+      
+      return { success: true, address: this.userAddress };
+    } catch (error) {
+      console.error(`[AuthService] Error connecting with ${walletName} provider:`, error);
+      
+      let errorMessage = `Failed to connect with ${walletName}`;
+      if (error instanceof Error) {
+        errorMessage += `: ${error.message}`;
+      }
+      
+      return { success: false, error: errorMessage };
+    }
+  }
+
   // Connect with login selector
   async connectWithSelector(): Promise<AuthResult> {
     console.log("[AuthService] Connecting with selector...");
@@ -243,9 +545,9 @@ class AuthService {
         console.log("[AuthService] User selected Silk");
         // Use Silk as provider
         this.provider = new ethers.providers.Web3Provider(this.silkProvider);
-        // @ts-ignore
         window.ethereum = this.silkProvider;
         console.log("[AuthService] Set window.ethereum to silkProvider");
+        this.setProviderType("silk");
       } else if (result === "injected" && window.ethereum) {
         console.log("[AuthService] User selected injected wallet");
         // Use injected provider
@@ -256,6 +558,7 @@ class AuthService {
         console.log("[AuthService] Requesting accounts from injected provider");
         await window.ethereum.request({ method: 'eth_requestAccounts' });
         console.log("[AuthService] Account request successful");
+        this.setProviderType("injected");
       } else if (result === "walletconnect") {
         console.log("[AuthService] User selected WalletConnect");
         // WalletConnect is handled by the caller (using wagmi)
@@ -276,6 +579,8 @@ class AuthService {
       // Set authenticated
       this.isAuthenticated = true;
       console.log("[AuthService] Set isAuthenticated to true");
+      this.watchProvider();
+      this.notify();
       
       return { success: true, address: this.userAddress };
     } catch (error) {
@@ -294,14 +599,82 @@ class AuthService {
     }
   }
 
+  // Check if development test accounts are configured
+  isLocalKeyAuthAvailable(): boolean {
+    return isLocalKeyAuthEnabled();
+  }
+
+  // Get the development test accounts
+  getLocalAccounts(): LocalAccount[] {
+    return this.getLocalWallets().map((wallet, index) => ({ index, address: wallet.address }));
+  }
+
+  // Sign with a development test account. Switching to another one works like switching accounts in a wallet.
+  async connectWithLocalKey(index: number = 0): Promise<AuthResult> {
+    console.log(`[AuthService] Connecting with local test account ${index}`);
+    try {
+      if (!isLocalKeyAuthEnabled()) {
+        return { success: false, error: "Local test accounts are not configured" };
+      }
+      
+      const wallet = this.getLocalWallets()[index];
+      if (!wallet) {
+        return { success: false, error: `There is no local test account ${index}` };
+      }
+      
+      // The local key replaces whichever wallet was connected before
+      this.unwatchProvider();
+      this.provider = null;
+      this.signer = wallet.connect(new ethers.providers.JsonRpcProvider(getLocalRpcUrl()));
+      this.userAddress = wallet.address;
+      this.localAccountIndex = index;
+      this.isAuthenticated = true;
+      this.setProviderType("local");
+      window.localStorage.setItem(LOCAL_ACCOUNT_STORAGE_KEY, String(index));
+      
+      console.log(`[AuthService] Connected with local test account: ${this.userAddress}`);
+      this.notify();
+      return { success: true, address: this.userAddress };
+    } catch (error) {
+      console.error("[AuthService] Error connecting with local test account:", error);
+      
+      let errorMessage = "Failed to connect with local test account";
+      if (error instanceof Error) {
+        errorMessage += `: ${error.message}`;
+      }
+      
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Create the test account wallets once, as deriving them from a mnemonic is slow
+  private getLocalWallets(): ethers.Wallet[] {
+    if (!this.localWallets) {
+      this.localWallets = createLocalWallets();
+    }
+    return this.localWallets;
+  }
+
+  // Get the test account used last in this browser
+  private getStoredLocalAccountIndex(): number {
+    try {
+      return Number(window.localStorage.getItem(LOCAL_ACCOUNT_STORAGE_KEY)) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
   // Disconnect wallet
   disconnect(): void {
     console.log("[AuthService] Disconnecting wallet");
+    this.unwatchProvider();
     this.provider = null;
     this.signer = null;
     this.userAddress = "";
     this.isAuthenticated = false;
+    this.setProviderType(null);
     console.log("[AuthService] Wallet disconnected");
+    this.notify();
   }
 
   // Sign message
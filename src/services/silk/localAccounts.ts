@@ -0,0 +1,41 @@
+import { ethers } from "ethers";
+
+// Test accounts for development, signing with keys from the environment instead of a wallet.
+// Set VITE_LOCAL_PRIVATE_KEYS to comma-separated private keys, or VITE_LOCAL_MNEMONIC to derive
+// VITE_LOCAL_ACCOUNT_COUNT accounts (5 by default) from a mnemonic, e.g. the one hardhat uses.
+
+// Types
+export interface LocalAccount {
+  index: number;
+  address: string;
+}
+
+const DEFAULT_RPC_URL = "http://127.0.0.1:8545";
+const DEFAULT_ACCOUNT_COUNT = 5;
+
+// Check if local keys are configured. Never true outside of development builds.
+export const isLocalKeyAuthEnabled = (): boolean =>
+  process.env.NODE_ENV === "development" &&
+  !!(process.env.VITE_LOCAL_PRIVATE_KEYS || process.env.VITE_LOCAL_MNEMONIC);
+
+// Get the JSON-RPC node the test accounts use, hardhat's by default
+export const getLocalRpcUrl = (): string => process.env.VITE_LOCAL_RPC_URL || DEFAULT_RPC_URL;
+
+// Create a wallet for each configured key. Throws when a key or the mnemonic is malformed.
+export const createLocalWallets = (): ethers.Wallet[] => {
+  if (!isLocalKeyAuthEnabled()) return [];
+
+  const privateKeys = (process.env.VITE_LOCAL_PRIVATE_KEYS || "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  if (privateKeys.length > 0) {
+    return privateKeys.map((key) => new ethers.Wallet(key));
+  }
+
+  const mnemonic = (process.env.VITE_LOCAL_MNEMONIC || "").trim();
+  const count = Number(process.env.VITE_LOCAL_ACCOUNT_COUNT) || DEFAULT_ACCOUNT_COUNT;
+  return Array.from({ length: count }, (_, index) =>
+    ethers.Wallet.fromMnemonic(mnemonic, `m/44'/60'/0'/0/${index}`)
+  );
+};
@@ -0,0 +1,202 @@
+import { ethers } from "ethers";
+import {
+  createSiweMessage,
+  generateSiweNonce,
+  parseSiweMessage,
+  validateSiweMessage,
+} from "viem/siwe";
+import { authService } from "./authService";
+import { isValidContractSignature } from "./accountType";
+
+// Types
+export interface SiweSession {
+  address: string;
+  chainId: number;
+  // The signed EIP-4361 message and its signature
+  message: string;
+  signature: string;
+  // Sent with tutor requests. The backend can verify the message and signature it carries on its own.
+  token: string;
+  expiresAt: string;
+}
+
+export interface SiweResult {
+  success: boolean;
+  session?: SiweSession;
+  error?: string;
+}
+
+const SESSION_STORAGE_KEY = "scarlett-siwe-session";
+const SIWE_STATEMENT = "Sign in to Scarlett to use your account with the tutor.";
+
+// Encode the signed message as the session token
+const encodeToken = (message: string, signature: string): string =>
+  btoa(JSON.stringify({ message, signature }));
+
+// Sign-In With Ethereum Service class. Proves to the tutor backend which account is talking to it.
+class SiweService {
+  private session: SiweSession | null = null;
+  private sessionDurationMs = 24 * 60 * 60 * 1000;
+
+  constructor() {
+    this.session = this.loadSession();
+
+    // A session only belongs to the account that signed it
+    authService.subscribe((state) => {
+      if (!this.session || !state.isInitialized) return;
+      if (state.address.toLowerCase() !== this.session.address.toLowerCase()) {
+        console.log("[SiweService] Wallet changed, ending the session");
+        this.clearSession();
+      }
+    });
+  }
+
+  // Load the stored session, if any
+  private loadSession(): SiweSession | null {
+    if (typeof window === "undefined") return null;
+
+    try {
+      const stored = window.localStorage.getItem(SESSION_STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as SiweSession) : null;
+    } catch (error) {
+      console.error("[SiweService] Error loading the session:", error);
+      return null;
+    }
+  }
+
+  // Check if a session belongs to the connected wallet and has not expired
+  private isValid(session: SiweSession): boolean {
+    return (
+      session.address.toLowerCase() === authService.getUserAddress().toLowerCase() &&
+      new Date(session.expiresAt).getTime() > Date.now()
+    );
+  }
+
+  // Get the session of the connected wallet, or null when signing in is needed
+  getSession(): SiweSession | null {
+    return this.session && this.isValid(this.session) ? this.session : null;
+  }
+
+  // Get the token to attach to tutor requests
+  getToken(): string | null {
+    return this.getSession()?.token ?? null;
+  }
+
+  // Reuse the current session, or sign in when there is none
+  async ensureSession(): Promise<SiweResult> {
+    const session = this.getSession();
+    if (session) {
+      return { success: true, session };
+    }
+    return this.signIn();
+  }
+
+  // Sign an EIP-4361 message with the connected wallet and start a session
+  async signIn(): Promise<SiweResult> {
+    console.log("[SiweService] Signing in");
+    try {
+      const signer = authService.getSigner();
+      const address = authService.getUserAddress();
+      if (!authService.isConnected() || !signer || !address) {
+        return { success: false, error: "Not connected to wallet" };
+      }
+
+      // Some signers cannot reach a node, e.g. a local key without hardhat running
+      let chainId = 1;
+      try {
+        chainId = await signer.getChainId();
+      } catch (error) {
+        console.warn("[SiweService] Could not read the chain id, signing for mainnet:", error);
+      }
+
+      // The backend has no nonce endpoint, so the nonce only binds the message to this sign-in
+      const nonce = generateSiweNonce();
+      const issuedAt = new Date();
+      const message = createSiweMessage({
+        address: ethers.utils.getAddress(address) as `0x${string}`,
+        chainId,
+        domain: window.location.host,
+        uri: window.location.origin,
+        version: "1",
+        nonce,
+        statement: SIWE_STATEMENT,
+        issuedAt,
+        expirationTime: new Date(issuedAt.getTime() + this.sessionDurationMs),
+      });
+
+      const signed = await authService.signMessage(message);
+      if (!signed.success || !signed.signature) {
+        return { success: false, error: signed.error || "Failed to sign in" };
+      }
+
+      const verifyError = await this.verify(message, signed.signature, address, nonce);
+      if (verifyError) {
+        console.error(`[SiweService] Sign-in message did not verify: ${verifyError}`);
+        return { success: false, error: `Failed to sign in: ${verifyError}` };
+      }
+
+      const session: SiweSession = {
+        address,
+        chainId,
+        message,
+        signature: signed.signature,
+        token: encodeToken(message, signed.signature),
+        expiresAt: new Date(issuedAt.getTime() + this.sessionDurationMs).toISOString(),
+      };
+      this.session = session;
+      window.localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+      console.log(`[SiweService] Signed in until ${session.expiresAt}`);
+
+      return { success: true, session };
+    } catch (error) {
+      console.error("[SiweService] Error signing in:", error);
+
+      let errorMessage = "Failed to sign in";
+      if (error instanceof Error) {
+        errorMessage += `: ${error.message}`;
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Check a signed message the way the backend does. Returns the problem, or null when it is valid.
+  private async verify(message: string, signature: string, address: string, nonce: string): Promise<string | null> {
+    const fields = parseSiweMessage(message);
+    const isValidMessage = validateSiweMessage({
+      message: fields,
+      address: ethers.utils.getAddress(address) as `0x${string}`,
+      domain: window.location.host,
+      nonce,
+    });
+    if (!isValidMessage) {
+      return "the message does not match this sign-in";
+    }
+
+    // Smart-contract wallets do not sign with a key of their own, so their contract checks the signature.
+    // Their signatures may not even have the length of a key signature.
+    let signerAddress = "";
+    try {
+      signerAddress = ethers.utils.verifyMessage(message, signature);
+    } catch {
+      // Not a key signature
+    }
+    if (signerAddress.toLowerCase() !== address.toLowerCase()) {
+      const provider = authService.getSigner()?.provider;
+      if (!provider || !(await isValidContractSignature(provider, address, message, signature))) {
+        return "the signature is not from the connected wallet";
+      }
+    }
+
+    return null;
+  }
+
+  // End the session
+  clearSession() {
+    this.session = null;
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+}
+
+// Export a singleton instance
+export const siweService = new SiweService();
@@ -0,0 +1,36 @@
+import { http, createConfig } from "wagmi";
+import {
+  Chain,
+  mainnet,
+  sepolia,
+  hardhat,
+  polygon,
+  gnosis,
+  optimism,
+} from "wagmi/chains";
+import { injected, walletConnect } from "wagmi/connectors";
+
+// The chains the app connects wallets on and reads contracts from
+const defaultChains: Chain[] = [mainnet, polygon, gnosis, sepolia, optimism];
+
+if (process.env.NODE_ENV == "development") {
+  defaultChains.push(hardhat);
+}
+
+export const wagmiConfig = createConfig({
+  chains: defaultChains as any as readonly [Chain, ...Chain[]],
+  transports: {
+    [mainnet.id]: http(),
+    [sepolia.id]: http(),
+    [polygon.id]: http(),
+    [gnosis.id]: http(),
+    [optimism.id]: http(),
+    [hardhat.id]: http(),
+  },
+  connectors: [
+    injected(),
+    walletConnect({
+      projectId: process.env.VITE_WALLETCONNECT_PROJECT_ID || "",
+    }),
+  ],
+});
@@ -0,0 +1,80 @@
+import type { XmtpMessage, ConnectionStatus } from "../xmtp/xmtpService";
+
+// Types
+
+// Events emitted by the tutor transports. Messages carry the id of the persona they belong to.
+export interface TutorEvents {
+  // A message is ready to show
+  message: XmtpMessage;
+  // A reply that was shown partially is now complete and replaces the partial entry
+  messageUpdated: XmtpMessage;
+  // The audio and text halves of a tutor reply were combined
+  pairCompleted: { pairId: string; message: XmtpMessage };
+  connectionState: ConnectionStatus;
+  // Something failed in the background, outside of a call that could return the error
+  error: { message: string; personaId?: string };
+}
+
+export type TutorEventName = keyof TutorEvents;
+
+export type TutorEventListener<E extends TutorEventName> = (payload: TutorEvents[E]) => void;
+
+export const TUTOR_EVENT_NAMES: TutorEventName[] = [
+  "message",
+  "messageUpdated",
+  "pairCompleted",
+  "connectionState",
+  "error",
+];
+
+// Typed event emitter. Adding a listener twice or removing it twice has no effect.
+export class TutorEventEmitter {
+  private listeners: { [E in TutorEventName]?: Set<TutorEventListener<E>> } = {};
+
+  // Add a listener. Returns a function that removes it.
+  on<E extends TutorEventName>(event: E, listener: TutorEventListener<E>): () => void {
+    const listeners: Set<TutorEventListener<E>> = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners as (typeof this.listeners)[E];
+
+    return () => this.off(event, listener);
+  }
+
+  // Remove a listener
+  off<E extends TutorEventName>(event: E, listener: TutorEventListener<E>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  // Call the listeners of an event. A throwing listener does not stop the others.
+  emit<E extends TutorEventName>(event: E, payload: TutorEvents[E]) {
+    const listeners: Set<TutorEventListener<E>> | undefined = this.listeners[event];
+    if (!listeners) return;
+
+    // Copy, so listeners can unsubscribe while being called
+    for (const listener of [...listeners]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`[TutorEventEmitter] Error in ${event} listener:`, error);
+      }
+    }
+  }
+}
+
+// Emit the events for a message that came out of the pairer. A combined reply whose partial half
+// was already shown updates that entry. shownPartials holds the pairIds of the partial halves shown.
+export const emitReadyMessage = (events: TutorEventEmitter, message: XmtpMessage, shownPartials: Set<string>) => {
+  const pairId = message.pairId;
+
+  if (pairId && message.isPartial) {
+    shownPartials.add(pairId);
+  }
+
+  const isUpdate = !!pairId && !message.isPartial && shownPartials.delete(pairId);
+  events.emit(isUpdate ? "messageUpdated" : "message", message);
+
+  // Only combinePair sets isPartial to false
+  if (pairId && message.isPartial === false) {
+    events.emit("pairCompleted", { pairId, message });
+  }
+};
@@ -0,0 +1,173 @@
+import { xmtpService, type XmtpMessage, type ConnectionStatus } from "../xmtp/xmtpService";
+import { configService, type TutorTransportKind } from "../config/configService";
+import { demoModeService } from "../demo/demoModeService";
+import { webSocketTransport } from "./webSocketTransport";
+import { siweService } from "../silk/siweService";
+import type { TutorTransport, TutorResult, TutorConnectResult } from "./tutorTransport";
+import {
+  TutorEventEmitter,
+  TUTOR_EVENT_NAMES,
+  type TutorEventName,
+  type TutorEventListener,
+} from "./tutorEvents";
+
+// Types
+export interface TutorState {
+  kind: TutorTransportKind;
+  isConnected: boolean;
+  connectionStatus: ConnectionStatus;
+}
+
+// Tutor Service class. Forwards to the transport chosen in the configuration.
+class TutorService implements TutorTransport {
+  private transports: Record<TutorTransportKind, TutorTransport> = {
+    xmtp: xmtpService,
+    websocket: webSocketTransport,
+  };
+  private active: TutorTransport = xmtpService;
+  private events = new TutorEventEmitter();
+  private stateListeners: Set<(state: TutorState) => void> = new Set();
+
+  constructor() {
+    // Only the active transport's events are passed on
+    for (const transport of Object.values(this.transports)) {
+      for (const event of TUTOR_EVENT_NAMES) {
+        this.forward(transport, event);
+      }
+    }
+  }
+
+  // Re-emit an event of a transport while it is the active one
+  private forward<E extends TutorEventName>(transport: TutorTransport, event: E) {
+    transport.on(event, (payload) => {
+      if (transport === this.active) {
+        this.events.emit(event, payload);
+        if (event === "connectionState") {
+          this.notifyState();
+        }
+      }
+    });
+  }
+
+  get kind(): TutorTransportKind {
+    return this.active.kind;
+  }
+
+  // Pick the transport from the configuration. Demo mode runs the simulated tutor behind XMTP.
+  private selectTransport(): TutorTransport {
+    if (demoModeService.isEnabled()) {
+      return xmtpService;
+    }
+
+    try {
+      return this.transports[configService.getConfig().tutorTransport];
+    } catch {
+      // XmtpService reports the configuration problem when it connects
+      return xmtpService;
+    }
+  }
+
+  // Connect with the configured transport
+  async connect(): Promise<TutorConnectResult> {
+    if (!this.active.isConnected()) {
+      const selected = this.selectTransport();
+      if (selected !== this.active) {
+        this.active = selected;
+        this.events.emit("connectionState", selected.getConnectionStatus());
+        this.notifyState();
+      }
+    }
+
+    // The backend ties usage to the account signed in with Ethereum. The simulated tutor needs no account.
+    if (!demoModeService.isEnabled()) {
+      const session = await siweService.ensureSession();
+      if (!session.success) {
+        return { success: false, error: session.error };
+      }
+    }
+
+    console.log(`[TutorService] Connecting with the ${this.active.kind} transport`);
+    const result = await this.active.connect();
+    this.notifyState();
+    return result;
+  }
+
+  disconnect() {
+    this.active.disconnect();
+    this.notifyState();
+  }
+
+  isConnected(): boolean {
+    return this.active.isConnected();
+  }
+
+  getUserAddress(): string {
+    return this.active.getUserAddress();
+  }
+
+  sendAudio(audio: Blob, personaId?: string): Promise<TutorResult> {
+    return this.active.sendAudio(audio, personaId);
+  }
+
+  sendText(text: string, personaId?: string): Promise<TutorResult> {
+    return this.active.sendText(text, personaId);
+  }
+
+  startListening(personaId?: string): Promise<boolean> {
+    return this.active.startListening(personaId);
+  }
+
+  loadHistory(personaId?: string): Promise<XmtpMessage[]> {
+    return this.active.loadHistory(personaId);
+  }
+
+  loadOlderHistory(personaId?: string): Promise<XmtpMessage[]> {
+    return this.active.loadOlderHistory(personaId);
+  }
+
+  hasMoreHistory(personaId?: string): boolean {
+    return this.active.hasMoreHistory(personaId);
+  }
+
+  getConnectionStatus(): ConnectionStatus {
+    return this.active.getConnectionStatus();
+  }
+
+  // Get the connection state of the active transport
+  getState(): TutorState {
+    return {
+      kind: this.active.kind,
+      isConnected: this.active.isConnected(),
+      connectionStatus: this.active.getConnectionStatus(),
+    };
+  }
+
+  // Subscribe to changes of the connection state. Returns an unsubscribe function.
+  subscribe(listener: (state: TutorState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  // Notify state listeners after connecting, disconnecting or a stream status change
+  private notifyState() {
+    const state = this.getState();
+    for (const listener of this.stateListeners) {
+      listener(state);
+    }
+  }
+
+  // Add a listener for the active transport's events. Returns a function that removes it.
+  on<E extends TutorEventName>(event: E, listener: TutorEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // Remove an event listener
+  off<E extends TutorEventName>(event: E, listener: TutorEventListener<E>) {
+    this.events.off(event, listener);
+  }
+}
+
+// Export a singleton instance
+export const tutorService = new TutorService();
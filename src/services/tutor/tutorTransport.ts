@@ -0,0 +1,47 @@
+import type { XmtpMessage, ConnectionStatus } from "../xmtp/xmtpService";
+import type { TutorTransportKind } from "../config/configService";
+import type { TutorEventName, TutorEventListener } from "./tutorEvents";
+
+// Types
+export interface TutorResult {
+  success: boolean;
+  error?: string;
+  // False when sending again cannot succeed, e.g. once the plan's daily limit is used up
+  retryable?: boolean;
+}
+
+export interface TutorConnectResult extends TutorResult {
+  address?: string;
+  // The stored XMTP key could not be unlocked. Connecting only works again once the learner resets it.
+  keyUnlockFailed?: boolean;
+}
+
+// How the app talks to the tutor backend. Messages are addressed to a persona; when no persona
+// is given the active one is used.
+export interface TutorTransport {
+  readonly kind: TutorTransportKind;
+
+  // Open the connection. The address is the user's wallet address.
+  connect(): Promise<TutorConnectResult>;
+  disconnect(): void;
+  isConnected(): boolean;
+  getUserAddress(): string;
+
+  sendAudio(audio: Blob, personaId?: string): Promise<TutorResult>;
+  sendText(text: string, personaId?: string): Promise<TutorResult>;
+
+  // Start receiving new messages from a persona, which are emitted as message events.
+  // Calling it again for the same persona has no effect.
+  startListening(personaId?: string): Promise<boolean>;
+
+  // Load the most recent page of history, then older pages one at a time
+  loadHistory(personaId?: string): Promise<XmtpMessage[]>;
+  loadOlderHistory(personaId?: string): Promise<XmtpMessage[]>;
+  hasMoreHistory(personaId?: string): boolean;
+
+  getConnectionStatus(): ConnectionStatus;
+
+  // Add an event listener. Returns a function that removes it.
+  on<E extends TutorEventName>(event: E, listener: TutorEventListener<E>): () => void;
+  off<E extends TutorEventName>(event: E, listener: TutorEventListener<E>): void;
+}
@@ -0,0 +1,621 @@
+import { authService } from "../silk/authService";
+import { siweService } from "../silk/siweService";
+import { entitlementService } from "../entitlements/entitlementService";
+import { configService } from "../config/configService";
+import { personaService, DEFAULT_PERSONA_ID, type TutorPersona } from "../config/personaService";
+import { MessagePairer, DEFAULT_PAIRING_TIMEOUT_MS } from "../xmtp/messagePairing";
+import { fromLegacyPayload, base64ToBlob } from "../xmtp/tutorResponseCodec";
+import type { XmtpMessage, ConnectionStatus } from "../xmtp/xmtpService";
+import type { TutorTransport, TutorResult, TutorConnectResult } from "./tutorTransport";
+import { TutorEventEmitter, emitReadyMessage, type TutorEventName, type TutorEventListener } from "./tutorEvents";
+
+// Types
+
+// A JSON frame from the tutor server. Replies use the same audio_response JSON the bot sends
+// over XMTP, with optional "id", "persona_id" and "sent_at" (milliseconds) fields added.
+// History responses are {"message_type": "history", "request_id", "messages": [...], "has_more"},
+// where the user's own messages are {"message_type": "user_message", "text"?, "audio_base64"?, "mime_type"?}.
+type ServerFrame = Record<string, unknown>;
+
+// State kept for the messages of one tutor persona
+interface PersonaChannel {
+  persona: TutorPersona;
+  isListening: boolean;
+  messagePairer: MessagePairer;
+  pairingTimer: number | null;
+  shownPartials: Set<string>;
+  newestSentAt: number | null;
+  oldestSentAt: number | null;
+  hasMore: boolean;
+  isLoadingHistory: boolean;
+}
+
+interface PendingRequest {
+  resolve: (frame: ServerFrame) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Encode a Blob as base64
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = "";
+
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+
+  return btoa(binary);
+};
+
+// WebSocket Transport class. Talks to the tutor backend directly instead of over XMTP.
+class WebSocketTransport implements TutorTransport {
+  readonly kind = "websocket" as const;
+  private socket: WebSocket | null = null;
+  private shouldReconnect: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: number | null = null;
+  private maxReconnectAttemptsBeforeOffline = 5;
+  private connectionStatus: ConnectionStatus = "offline";
+  private events = new TutorEventEmitter();
+  private channels: Map<string, PersonaChannel> = new Map();
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private requestTimeoutMs = 15000;
+  private historyPageSize = 30;
+  // The wallet address the socket was opened for
+  private connectedAddress: string = "";
+
+  constructor() {
+    // The server knows the socket by its address, so another wallet needs a new one
+    authService.subscribe((state) => {
+      if (!this.shouldReconnect || state.address.toLowerCase() === this.connectedAddress.toLowerCase()) return;
+      console.log("[WebSocketTransport] Wallet identity changed, closing the connection");
+      this.disconnect();
+    });
+  }
+
+  // Connect to the tutor server
+  async connect(): Promise<TutorConnectResult> {
+    console.log("[WebSocketTransport] Connect method called");
+
+    if (this.shouldReconnect) {
+      return { success: true, address: this.getUserAddress() };
+    }
+
+    try {
+      if (!authService.isConnected()) {
+        console.error("[WebSocketTransport] Not connected to wallet");
+        return { success: false, error: "Not connected to wallet" };
+      }
+
+      await this.openSocket(false);
+      this.shouldReconnect = true;
+      this.connectedAddress = this.getUserAddress();
+
+      return { success: true, address: this.getUserAddress() };
+    } catch (error) {
+      console.error("[WebSocketTransport] Error connecting to the tutor:", error);
+      let errorMessage = "Failed to connect to the tutor";
+
+      if (error instanceof Error) {
+        errorMessage += `: ${error.message}`;
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Open the socket. Once a connection has been made, closing it schedules a reconnect.
+  private openSocket(isReconnect: boolean): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(configService.getConfig().tutorWebSocketUrl);
+      url.searchParams.set("address", this.getUserAddress());
+
+      const socket = new WebSocket(url.toString());
+      this.socket = socket;
+      let opened = false;
+
+      socket.onopen = () => {
+        opened = true;
+        this.reconnectAttempt = 0;
+        this.setConnectionStatus("live");
+        resolve();
+      };
+
+      socket.onmessage = (event) => this.handleFrame(event.data);
+
+      socket.onclose = () => {
+        // Sockets closed on purpose have already been replaced
+        if (this.socket !== socket) return;
+
+        this.socket = null;
+        this.failPendingRequests("The connection to the tutor was closed");
+
+        if (!opened) {
+          reject(new Error("Could not open the connection"));
+        }
+
+        if (opened || isReconnect) {
+          this.scheduleReconnect();
+        } else {
+          this.setConnectionStatus("offline");
+        }
+      };
+    });
+  }
+
+  // Reconnect with exponential backoff
+  private scheduleReconnect() {
+    if (!this.shouldReconnect) return;
+
+    this.reconnectAttempt++;
+    const baseDelay = Math.min(1000 * 2 ** (this.reconnectAttempt - 1), 30000);
+    const delay = Math.round(baseDelay * (0.8 + Math.random() * 0.4));
+    this.setConnectionStatus(this.reconnectAttempt > this.maxReconnectAttemptsBeforeOffline ? "offline" : "reconnecting");
+    console.log(`[WebSocketTransport] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempt})`);
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket(true)
+        .then(() => this.syncMissedMessages())
+        .catch(() => {
+          // The close handler has already scheduled the next attempt
+        });
+    }, delay);
+  }
+
+  // Disconnect and clear all state
+  disconnect() {
+    console.log("[WebSocketTransport] Disconnect method called");
+    this.shouldReconnect = false;
+
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.failPendingRequests("Disconnected");
+
+    for (const channel of this.channels.values()) {
+      if (channel.pairingTimer !== null) {
+        window.clearTimeout(channel.pairingTimer);
+      }
+    }
+    this.channels.clear();
+    this.reconnectAttempt = 0;
+    this.connectedAddress = "";
+    this.setConnectionStatus("offline");
+  }
+
+  // Check if connected. Stays true while reconnecting.
+  isConnected(): boolean {
+    return this.shouldReconnect;
+  }
+
+  // Get user address
+  getUserAddress(): string {
+    return authService.getUserAddress();
+  }
+
+  // Get the channel for a persona, defaulting to the active one
+  private getChannel(personaId?: string): PersonaChannel {
+    const persona = personaId ? personaService.getPersona(personaId) : personaService.getActivePersona();
+    if (!persona) {
+      throw new Error(`Unknown persona "${personaId}"`);
+    }
+
+    let channel = this.channels.get(persona.id);
+    if (!channel) {
+      channel = {
+        persona,
+        isListening: false,
+        messagePairer: new MessagePairer({ timeoutMs: DEFAULT_PAIRING_TIMEOUT_MS }),
+        pairingTimer: null,
+        shownPartials: new Set(),
+        newestSentAt: null,
+        oldestSentAt: null,
+        hasMore: true,
+        isLoadingHistory: false,
+      };
+      this.channels.set(persona.id, channel);
+    }
+
+    return channel;
+  }
+
+  // Send a frame over the open socket
+  private sendFrame(frame: Record<string, unknown>): TutorResult {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return { success: false, error: "Not connected to the tutor" };
+    }
+
+    // Every frame carries the session token, so the server can tie each request to an account.
+    // It is kept out of the socket URL, which ends up in proxy and server logs.
+    this.socket.send(JSON.stringify({ ...frame, session_token: siweService.getToken() }));
+    return { success: true };
+  }
+
+  // Send a frame and wait for the response carrying the same request id
+  private request(frame: Record<string, unknown>): Promise<ServerFrame> {
+    const requestId = window.crypto.randomUUID();
+
+    return new Promise((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new Error("The tutor did not answer in time"));
+      }, this.requestTimeoutMs);
+      this.pendingRequests.set(requestId, { resolve, reject, timer });
+
+      const result = this.sendFrame({ ...frame, request_id: requestId });
+      if (!result.success) {
+        window.clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        reject(new Error(result.error));
+      }
+    });
+  }
+
+  // Reject all requests that are waiting for a response
+  private failPendingRequests(reason: string) {
+    for (const pending of this.pendingRequests.values()) {
+      window.clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    }
+    this.pendingRequests.clear();
+  }
+
+  // Send a recording to a persona, by default the active one
+  async sendAudio(audio: Blob, personaId?: string): Promise<TutorResult> {
+    try {
+      // Recordings count against the daily limit of the learner's plan
+      const allowed = entitlementService.checkVoiceTurn();
+      if (!allowed.success) {
+        return allowed;
+      }
+
+      const lengthAllowed = await entitlementService.checkRecordingLength(audio);
+      if (!lengthAllowed.success) {
+        return lengthAllowed;
+      }
+
+      const channel = this.getChannel(personaId);
+      const id = window.crypto.randomUUID();
+      const mimeType = audio.type || "audio/webm";
+
+      const result = this.sendFrame({
+        type: "audio",
+        id,
+        persona_id: channel.persona.id,
+        mime_type: mimeType,
+        audio_base64: await blobToBase64(audio),
+      });
+
+      // The server does not echo our own messages, so show them right away
+      if (result.success) {
+        entitlementService.recordVoiceTurn();
+        this.deliver(channel, this.createOwnMessage(channel, id, "🔊 Audio message: audio.webm", URL.createObjectURL(audio)));
+      }
+
+      return result;
+    } catch (error) {
+      console.error("[WebSocketTransport] Error sending audio:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to send message" };
+    }
+  }
+
+  // Send a typed text message to a persona, by default the active one
+  async sendText(text: string, personaId?: string): Promise<TutorResult> {
+    try {
+      const trimmedText = text.trim();
+      if (!trimmedText) {
+        return { success: false, error: "Message is empty" };
+      }
+
+      const channel = this.getChannel(personaId);
+      const id = window.crypto.randomUUID();
+      const result = this.sendFrame({ type: "text", id, persona_id: channel.persona.id, text: trimmedText });
+
+      if (result.success) {
+        this.deliver(channel, this.createOwnMessage(channel, id, trimmedText));
+      }
+
+      return result;
+    } catch (error) {
+      console.error("[WebSocketTransport] Error sending text:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Failed to send message" };
+    }
+  }
+
+  // Build the transcript entry for a message the user just sent
+  private createOwnMessage(channel: PersonaChannel, id: string, content: string, audioUrl?: string): XmtpMessage {
+    return {
+      id,
+      conversationId: `websocket-${channel.persona.id}`,
+      senderAddress: this.getUserAddress(),
+      content,
+      contentType: audioUrl ? "attachment" : "text",
+      sentAt: new Date().toISOString(),
+      isFromMe: true,
+      isFromBot: false,
+      audioUrl,
+      personaId: channel.persona.id,
+    };
+  }
+
+  // Start emitting new messages from a persona. The server pushes them over the shared socket.
+  async startListening(personaId?: string): Promise<boolean> {
+    if (!this.isConnected()) return false;
+
+    try {
+      this.getChannel(personaId).isListening = true;
+      return true;
+    } catch (error) {
+      console.error("[WebSocketTransport] Failed to start listening:", error);
+      this.events.emit("error", { message: "Failed to start listening for tutor messages", personaId });
+      return false;
+    }
+  }
+
+  // Handle a frame pushed by the server
+  private handleFrame(data: unknown) {
+    let frame: ServerFrame;
+    try {
+      const parsed = JSON.parse(String(data));
+      if (!isRecord(parsed)) throw new Error("frame is not an object");
+      frame = parsed;
+    } catch (error) {
+      console.error("[WebSocketTransport] Ignoring malformed frame:", error);
+      return;
+    }
+
+    // Responses to our own requests
+    const pending = typeof frame.request_id === "string" ? this.pendingRequests.get(frame.request_id) : undefined;
+    if (pending) {
+      window.clearTimeout(pending.timer);
+      this.pendingRequests.delete(frame.request_id as string);
+      if (frame.message_type === "error") {
+        pending.reject(new Error(String(frame.error ?? "The tutor reported an error")));
+      } else {
+        pending.resolve(frame);
+      }
+      return;
+    }
+
+    if (frame.message_type === "error") {
+      console.error("[WebSocketTransport] Tutor error:", frame.error);
+      return;
+    }
+
+    try {
+      const channel = this.getChannel(typeof frame.persona_id === "string" ? frame.persona_id : DEFAULT_PERSONA_ID);
+      const message = this.toMessage(channel, frame);
+      if (message) {
+        this.deliver(channel, message);
+      }
+    } catch (error) {
+      console.error("[WebSocketTransport] Error handling frame:", error);
+    }
+  }
+
+  // Convert a server frame to a transcript message
+  private toMessage(channel: PersonaChannel, frame: ServerFrame): XmtpMessage | null {
+    const sentAtMs = typeof frame.sent_at === "number" ? frame.sent_at : Date.now();
+    const base = {
+      id: typeof frame.id === "string" ? frame.id : window.crypto.randomUUID(),
+      conversationId: `websocket-${channel.persona.id}`,
+      sentAt: new Date(sentAtMs).toISOString(),
+      personaId: channel.persona.id,
+    };
+
+    if (frame.message_type === "user_message") {
+      const audioUrl = typeof frame.audio_base64 === "string"
+        ? URL.createObjectURL(base64ToBlob(frame.audio_base64, typeof frame.mime_type === "string" ? frame.mime_type : "audio/webm"))
+        : undefined;
+
+      return {
+        ...base,
+        senderAddress: this.getUserAddress(),
+        content: typeof frame.text === "string" ? frame.text : "🔊 Audio message",
+        contentType: audioUrl ? "attachment" : "text",
+        isFromMe: true,
+        isFromBot: false,
+        audioUrl,
+      };
+    }
+
+    let response;
+    try {
+      response = fromLegacyPayload(frame);
+    } catch (error) {
+      console.error("[WebSocketTransport] Invalid tutor response:", error);
+      return null;
+    }
+
+    if (!response) {
+      console.warn("[WebSocketTransport] Ignoring unknown frame:", frame.message_type);
+      return null;
+    }
+
+    return {
+      ...base,
+      senderAddress: channel.persona.inboxId,
+      content: response.text || "Audio message",
+      contentType: "tutorResponse",
+      isFromMe: false,
+      isFromBot: true,
+      audioUrl: response.audio?.base64
+        ? URL.createObjectURL(base64ToBlob(response.audio.base64, response.audio.mimeType))
+        : undefined,
+      alignment: response.alignment,
+      normalized_alignment: response.normalizedAlignment,
+      wordTimestamps: response.wordTimestamps,
+      pairId: response.pairId,
+    };
+  }
+
+  // Run a message through the pairer, which also drops messages seen before. Returns the messages that are ready to show.
+  private receive(channel: PersonaChannel, message: XmtpMessage): XmtpMessage[] {
+    const sentAt = Date.parse(message.sentAt);
+    if (channel.newestSentAt === null || sentAt > channel.newestSentAt) {
+      channel.newestSentAt = sentAt;
+    }
+
+    const readyMessages = channel.messagePairer.add(message, Date.now());
+    this.schedulePairingFlush(channel);
+    return readyMessages;
+  }
+
+  // Emit a message once it is ready, if the persona is being listened to
+  private deliver(channel: PersonaChannel, message: XmtpMessage) {
+    for (const readyMessage of this.receive(channel, message)) {
+      if (channel.isListening) {
+        emitReadyMessage(this.events, readyMessage, channel.shownPartials);
+      }
+    }
+  }
+
+  // Schedule emitting pair halves whose partner did not arrive in time
+  private schedulePairingFlush(channel: PersonaChannel) {
+    if (channel.pairingTimer !== null) {
+      window.clearTimeout(channel.pairingTimer);
+      channel.pairingTimer = null;
+    }
+
+    const deadline = channel.messagePairer.nextDeadline();
+    if (deadline === null) return;
+
+    channel.pairingTimer = window.setTimeout(() => {
+      channel.pairingTimer = null;
+      for (const expiredMessage of channel.messagePairer.flushExpired(Date.now())) {
+        emitReadyMessage(this.events, expiredMessage, channel.shownPartials);
+      }
+      this.schedulePairingFlush(channel);
+    }, Math.max(0, deadline - Date.now()));
+  }
+
+  // Load the most recent page of history with a persona
+  async loadHistory(personaId?: string): Promise<XmtpMessage[]> {
+    if (!this.isConnected()) return [];
+
+    const channel = this.getChannel(personaId);
+    channel.oldestSentAt = null;
+    channel.hasMore = true;
+
+    return this.loadHistoryPage(channel);
+  }
+
+  // Load the page of history just before the oldest message loaded so far
+  async loadOlderHistory(personaId?: string): Promise<XmtpMessage[]> {
+    if (!this.hasMoreHistory(personaId)) return [];
+
+    return this.loadHistoryPage(this.getChannel(personaId));
+  }
+
+  // Check if there is older history left to load
+  hasMoreHistory(personaId?: string): boolean {
+    if (!this.isConnected()) return false;
+
+    try {
+      return this.getChannel(personaId).hasMore;
+    } catch {
+      return false;
+    }
+  }
+
+  // Request one page of history before the oldest loaded message
+  private async loadHistoryPage(channel: PersonaChannel): Promise<XmtpMessage[]> {
+    if (channel.isLoadingHistory) return [];
+    channel.isLoadingHistory = true;
+
+    try {
+      const response = await this.request({
+        type: "history",
+        persona_id: channel.persona.id,
+        before: channel.oldestSentAt ?? undefined,
+        limit: this.historyPageSize,
+      });
+      channel.hasMore = response.has_more === true;
+
+      // Frames are ordered oldest first
+      const messages: XmtpMessage[] = [];
+      for (const frame of Array.isArray(response.messages) ? response.messages : []) {
+        if (!isRecord(frame)) continue;
+
+        const message = this.toMessage(channel, frame);
+        if (!message) continue;
+
+        const sentAt = Date.parse(message.sentAt);
+        if (channel.oldestSentAt === null || sentAt < channel.oldestSentAt) {
+          channel.oldestSentAt = sentAt;
+        }
+        messages.push(...this.receive(channel, message));
+      }
+
+      console.log(`[WebSocketTransport] Loaded history page with ${messages.length} messages for ${channel.persona.id}`);
+      return messages;
+    } catch (error) {
+      console.error("[WebSocketTransport] Error loading history:", error);
+      this.events.emit("error", { message: "Failed to load the conversation history", personaId: channel.persona.id });
+      return [];
+    } finally {
+      channel.isLoadingHistory = false;
+    }
+  }
+
+  // After a reconnect, fetch whatever was sent while the socket was down
+  private async syncMissedMessages() {
+    for (const channel of this.channels.values()) {
+      if (!channel.isListening || channel.newestSentAt === null) continue;
+
+      try {
+        const response = await this.request({
+          type: "history",
+          persona_id: channel.persona.id,
+          after: channel.newestSentAt,
+        });
+
+        for (const frame of Array.isArray(response.messages) ? response.messages : []) {
+          const message = isRecord(frame) ? this.toMessage(channel, frame) : null;
+          if (message) {
+            this.deliver(channel, message);
+          }
+        }
+      } catch (error) {
+        console.error("[WebSocketTransport] Error syncing missed messages:", error);
+      }
+    }
+  }
+
+  // Get the current connection status
+  getConnectionStatus(): ConnectionStatus {
+    return this.connectionStatus;
+  }
+
+  // Add an event listener. Returns a function that removes it.
+  on<E extends TutorEventName>(event: E, listener: TutorEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // Remove an event listener
+  off<E extends TutorEventName>(event: E, listener: TutorEventListener<E>) {
+    this.events.off(event, listener);
+  }
+
+  // Update the connection status and emit it
+  private setConnectionStatus(status: ConnectionStatus) {
+    if (this.connectionStatus === status) return;
+
+    console.log(`[WebSocketTransport] Connection status: ${status}`);
+    this.connectionStatus = status;
+    this.events.emit("connectionState", status);
+  }
+}
+
+// Export a singleton instance
+export const webSocketTransport = new WebSocketTransport();
@@ -0,0 +1,65 @@
+import { configService } from "../config/configService";
+
+// Types
+export interface AttachmentUploader {
+  // Upload an encrypted payload and return the URL it can be downloaded from
+  upload(payload: Uint8Array, filename: string): Promise<string>;
+}
+
+// Error thrown when an attachment would be stored somewhere the recipient cannot download it from
+export class AttachmentUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentUrlError";
+  }
+}
+
+// Check that a URL can be used for a remote attachment. The codec only accepts https, and
+// anything else could not be downloaded by the bot anyway.
+export const assertHttpsUrl = (url: string) => {
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new AttachmentUrlError(`Attachment URL is not a valid URL: "${url}"`);
+  }
+
+  if (protocol !== "https:") {
+    throw new AttachmentUrlError(`Attachment URL must use https, got "${url}"`);
+  }
+};
+
+// Development stand-in that stores payloads on the local file system through the
+// Vite dev server (see the attachment store plugin in vite.config.ts). The dev server has to be
+// reachable by the bot over https, e.g. through a tunnel, at the configured attachment base URL.
+export class DevServerUploader implements AttachmentUploader {
+  private baseUrl: string | null;
+
+  // Uses the configured attachment base URL unless one is given
+  constructor(baseUrl: string | null = null) {
+    this.baseUrl = baseUrl;
+  }
+
+  async upload(payload: Uint8Array, filename: string): Promise<string> {
+    const baseUrl = this.baseUrl ?? configService.getConfig().attachmentBaseUrl;
+    if (!baseUrl) {
+      throw new AttachmentUrlError("Large recordings need an https attachment URL, set VITE_ATTACHMENT_BASE_URL");
+    }
+    assertHttpsUrl(baseUrl);
+
+    const key = `${window.crypto.randomUUID()}-${encodeURIComponent(filename)}`;
+    const url = `${baseUrl.replace(/\/+$/, "")}/${key}`;
+
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: payload,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Attachment upload failed with status ${response.status}`);
+    }
+
+    return url;
+  }
+}
@@ -0,0 +1,218 @@
+import { ethers } from "ethers";
+import { authService } from "../silk/authService";
+
+// Types
+interface StoredInstallationKey {
+  address: string;
+  wrappedKey: ArrayBuffer;
+  iv: Uint8Array;
+  salt: Uint8Array;
+  createdAt: string;
+}
+
+const DB_NAME = "scarlett-xmtp-keys";
+const DB_VERSION = 1;
+const STORE_NAME = "installationKeys";
+
+// Message the wallet signs to derive the key that wraps the database encryption key.
+// It must stay stable, otherwise previously stored keys can no longer be unwrapped.
+const buildUnlockMessage = (address: string) =>
+  `Scarlett: unlock your XMTP installation key for ${address.toLowerCase()}.\n\nThis signature does not cost gas and does not grant any permissions.`;
+
+// Error thrown when the wallet's signature does not unwrap the stored key. The key is kept, since
+// replacing it starts a new XMTP installation without the history stored in this browser.
+export class KeyUnlockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KeyUnlockError";
+  }
+}
+
+// Key Storage Service class
+class KeyStorageService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  // Database keys unwrapped in this page, by lowercase address. They are never written anywhere,
+  // so reconnecting does not ask to sign again, while a reload does.
+  private unlockedKeys: Map<string, Uint8Array> = new Map();
+
+  constructor() {
+    // An unlocked key only stays unlocked while its wallet is connected
+    let lastAddress = "";
+    authService.subscribe((state) => {
+      if (!state.isInitialized || state.address === lastAddress) return;
+      if (lastAddress) {
+        this.lock(lastAddress);
+      }
+      lastAddress = state.address;
+    });
+  }
+
+  // Open (or create) the IndexedDB database
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: "address" });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  // Read the stored record for an address
+  private async getRecord(address: string): Promise<StoredInstallationKey | undefined> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .get(address.toLowerCase());
+      request.onsuccess = () => resolve(request.result as StoredInstallationKey | undefined);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Write the record for an address
+  private async putRecord(record: StoredInstallationKey): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(record);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Derive an AES-GCM wrapping key from a wallet signature
+  private async deriveWrappingKey(signature: string, salt: Uint8Array): Promise<CryptoKey> {
+    const keyMaterial = await window.crypto.subtle.importKey(
+      "raw",
+      ethers.utils.arrayify(signature),
+      "HKDF",
+      false,
+      ["deriveKey"]
+    );
+
+    return window.crypto.subtle.deriveKey(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode("scarlett-xmtp-db-key"),
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["encrypt", "decrypt"]
+    );
+  }
+
+  // Check if a key is stored for an address
+  async hasStoredKey(address: string): Promise<boolean> {
+    try {
+      return !!(await this.getRecord(address));
+    } catch (error) {
+      console.error("[KeyStorageService] Error reading stored key:", error);
+      return false;
+    }
+  }
+
+  // Get the stored database encryption key for an address, or create and store one when there is none.
+  // Throws a KeyUnlockError when the stored key cannot be unwrapped; removeKey lets the learner start over.
+  async getOrCreateEncryptionKey(
+    address: string,
+    signer: ethers.Signer
+  ): Promise<{ key: Uint8Array; isNew: boolean }> {
+    console.log(`[KeyStorageService] Loading encryption key for ${address}`);
+
+    const unlocked = this.unlockedKeys.get(address.toLowerCase());
+    if (unlocked) {
+      console.log("[KeyStorageService] Reusing unlocked encryption key");
+      return { key: unlocked, isNew: false };
+    }
+
+    const existing = await this.getRecord(address);
+    const signature = await signer.signMessage(buildUnlockMessage(address));
+
+    if (existing) {
+      try {
+        const wrappingKey = await this.deriveWrappingKey(signature, existing.salt);
+        const key = await this.unwrapKey(existing, wrappingKey);
+        this.unlockedKeys.set(address.toLowerCase(), key);
+        console.log("[KeyStorageService] Reusing stored encryption key");
+        return { key, isNew: false };
+      } catch (error) {
+        // A wallet that produces non-deterministic signatures, or another wallet, cannot unwrap the old key
+        console.error("[KeyStorageService] Could not unwrap stored key:", error);
+        throw new KeyUnlockError(
+          "Your wallet's signature does not unlock the XMTP key stored in this browser. " +
+            "Sign with the wallet that created it, or reset the key to start a new installation without the local history."
+        );
+      }
+    }
+
+    const key = window.crypto.getRandomValues(new Uint8Array(32));
+    const salt = window.crypto.getRandomValues(new Uint8Array(16));
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const wrappingKey = await this.deriveWrappingKey(signature, salt);
+    const wrappedKey = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, wrappingKey, key);
+
+    await this.putRecord({
+      address: address.toLowerCase(),
+      wrappedKey,
+      iv,
+      salt,
+      createdAt: new Date().toISOString(),
+    });
+    this.unlockedKeys.set(address.toLowerCase(), key);
+    console.log("[KeyStorageService] Stored new encryption key");
+
+    return { key, isNew: true };
+  }
+
+  // Decrypt the database encryption key of a record
+  private async unwrapKey(record: StoredInstallationKey, wrappingKey: CryptoKey): Promise<Uint8Array> {
+    const decrypted = await window.crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: record.iv },
+      wrappingKey,
+      record.wrappedKey
+    );
+    return new Uint8Array(decrypted);
+  }
+
+  // Forget the unlocked key of an address, so the next connection asks the wallet to sign again
+  lock(address: string) {
+    if (this.unlockedKeys.delete(address.toLowerCase())) {
+      console.log(`[KeyStorageService] Locked the encryption key of ${address}`);
+    }
+  }
+
+  // Remove the stored key for an address. The next connection creates a new key and XMTP installation.
+  async removeKey(address: string): Promise<void> {
+    this.lock(address);
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).delete(address.toLowerCase());
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+// Export a singleton instance
+export const keyStorageService = new KeyStorageService();
@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import { MessagePairer, getPairHalf, combinePair } from "./messagePairing";
+import type { XmtpMessage } from "./xmtpService";
+
+const TIMEOUT_MS = 1000;
+
+// A tutor message with the given fields
+const message = (fields: Partial<XmtpMessage>): XmtpMessage => ({
+  id: "message",
+  conversationId: "conversation",
+  senderAddress: "bot",
+  content: "Hola",
+  contentType: "text",
+  sentAt: "2025-01-01T00:00:00.000Z",
+  isFromMe: false,
+  isFromBot: true,
+  ...fields,
+});
+
+// The audio half of a pair
+const audioHalf = (pairId: string, fields: Partial<XmtpMessage> = {}): XmtpMessage =>
+  message({ id: `${pairId}-audio`, pairId, audioUrl: `blob:${pairId}`, ...fields });
+
+// The text half of a pair
+const textHalf = (pairId: string, fields: Partial<XmtpMessage> = {}): XmtpMessage =>
+  message({ id: `${pairId}-text`, pairId, wordTimestamps: [{ text: "Hola", start_time: 0, end_time: 0.5 }], ...fields });
+
+describe("getPairHalf", () => {
+  it("recognizes the audio and text halves", () => {
+    expect(getPairHalf(audioHalf("a"))).toBe("audio");
+    expect(getPairHalf(textHalf("a"))).toBe("text");
+  });
+
+  it("leaves out messages without a pair id, text-only replies and complete replies", () => {
+    expect(getPairHalf(message({}))).toBeNull();
+    expect(getPairHalf(textHalf("text-only-a"))).toBeNull();
+    expect(getPairHalf(textHalf("a", { audioUrl: "blob:a" }))).toBeNull();
+  });
+});
+
+describe("combinePair", () => {
+  it("gives the same result in either arrival order", () => {
+    const audio = audioHalf("a", { sentAt: "2025-01-01T00:00:02.000Z" });
+    const text = textHalf("a", { sentAt: "2025-01-01T00:00:01.000Z" });
+
+    expect(combinePair(audio, text)).toEqual({
+      ...text,
+      audioUrl: "blob:a",
+      alignment: undefined,
+      normalized_alignment: undefined,
+      sentAt: "2025-01-01T00:00:02.000Z",
+      isPartial: false,
+    });
+  });
+});
+
+describe("MessagePairer", () => {
+  describe("add", () => {
+    it("passes messages that are not part of a pair straight through", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const plain = message({ id: "plain" });
+
+      expect(pairer.add(plain, 0)).toEqual([plain]);
+    });
+
+    it("holds the first half until the second one arrives", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const audio = audioHalf("a");
+      const text = textHalf("a");
+
+      expect(pairer.add(audio, 0)).toEqual([]);
+      expect(pairer.add(text, 10)).toEqual([combinePair(audio, text)]);
+      expect(pairer.nextDeadline()).toBeNull();
+    });
+
+    it("pairs the halves whichever arrives first", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const audio = audioHalf("a");
+      const text = textHalf("a");
+
+      expect(pairer.add(text, 0)).toEqual([]);
+      expect(pairer.add(audio, 10)).toEqual([combinePair(audio, text)]);
+    });
+
+    it("keeps pairs with different pair ids apart", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+
+      expect(pairer.add(audioHalf("a"), 0)).toEqual([]);
+      expect(pairer.add(textHalf("b"), 0)).toEqual([]);
+      expect(pairer.add(textHalf("a"), 0)).toEqual([combinePair(audioHalf("a"), textHalf("a"))]);
+    });
+
+    it("drops a message that was added before", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const plain = message({ id: "plain" });
+      const audio = audioHalf("a");
+
+      pairer.add(plain, 0);
+      pairer.add(audio, 0);
+      pairer.add(textHalf("a"), 0);
+
+      expect(pairer.hasSeen("plain")).toBe(true);
+      expect(pairer.add(plain, 10)).toEqual([]);
+      expect(pairer.add(audio, 10)).toEqual([]);
+      expect(pairer.nextDeadline()).toBeNull();
+    });
+
+    it("completes a half that was already shown on its own", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const audio = audioHalf("a");
+      const text = textHalf("a");
+
+      pairer.add(text, 0);
+      pairer.flushExpired(TIMEOUT_MS);
+
+      expect(pairer.add(audio, TIMEOUT_MS + 10)).toEqual([combinePair(audio, text)]);
+    });
+  });
+
+  describe("flushExpired", () => {
+    it("emits nothing before the timeout", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      pairer.add(audioHalf("a"), 0);
+
+      expect(pairer.flushExpired(TIMEOUT_MS - 1)).toEqual([]);
+    });
+
+    it("emits a half that waited for the timeout as a partial message", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const audio = audioHalf("a");
+      pairer.add(audio, 0);
+
+      expect(pairer.flushExpired(TIMEOUT_MS)).toEqual([{ ...audio, isPartial: true }]);
+      expect(pairer.flushExpired(TIMEOUT_MS * 2)).toEqual([]);
+    });
+
+    it("only emits the halves that expired", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const early = textHalf("early");
+      pairer.add(early, 0);
+      pairer.add(textHalf("late"), 500);
+
+      expect(pairer.flushExpired(TIMEOUT_MS)).toEqual([{ ...early, isPartial: true }]);
+      expect(pairer.nextDeadline()).toBe(500 + TIMEOUT_MS);
+    });
+  });
+
+  describe("nextDeadline", () => {
+    it("is null when nothing is pending", () => {
+      expect(new MessagePairer({ timeoutMs: TIMEOUT_MS }).nextDeadline()).toBeNull();
+    });
+
+    it("is when the oldest pending half expires", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      pairer.add(audioHalf("a"), 200);
+      pairer.add(audioHalf("b"), 100);
+
+      expect(pairer.nextDeadline()).toBe(100 + TIMEOUT_MS);
+    });
+
+    it("counts from when the first half of a pair arrived", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      pairer.add(audioHalf("a"), 100);
+      pairer.add(audioHalf("a", { id: "a-audio-again" }), 900);
+
+      expect(pairer.nextDeadline()).toBe(100 + TIMEOUT_MS);
+    });
+  });
+
+  describe("clear", () => {
+    it("forgets pending pairs and seen messages", () => {
+      const pairer = new MessagePairer({ timeoutMs: TIMEOUT_MS });
+      const plain = message({ id: "plain" });
+      pairer.add(plain, 0);
+      pairer.add(audioHalf("a"), 0);
+
+      pairer.clear();
+
+      expect(pairer.nextDeadline()).toBeNull();
+      expect(pairer.add(plain, 0)).toEqual([plain]);
+    });
+  });
+});
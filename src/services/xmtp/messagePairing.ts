@@ -0,0 +1,132 @@
+import { XmtpMessage } from "./xmtpService";
+
+// Types
+export interface MessagePairerOptions {
+  // How long to wait for the other half of a pair before emitting the half we have
+  timeoutMs: number;
+}
+
+type PairHalf = "audio" | "text";
+
+interface PendingPair {
+  audio?: XmtpMessage;
+  text?: XmtpMessage;
+  firstSeenAt: number;
+}
+
+export const DEFAULT_PAIRING_TIMEOUT_MS = 10000;
+
+// Decide which half of a pair a message is, or null if it does not take part in pairing
+export const getPairHalf = (message: XmtpMessage): PairHalf | null => {
+  if (!message.pairId || message.pairId.startsWith("text-only-")) return null;
+
+  const hasAudio = !!message.audioUrl;
+  const hasWordTimestamps = !!message.wordTimestamps;
+
+  if (hasAudio && !hasWordTimestamps) return "audio";
+  if (hasWordTimestamps && !hasAudio) return "text";
+  return null;
+};
+
+// Combine the two halves of a pair. The result only depends on the halves, not on arrival order.
+export const combinePair = (audio: XmtpMessage, text: XmtpMessage): XmtpMessage => ({
+  ...text,
+  audioUrl: audio.audioUrl,
+  alignment: text.alignment ?? audio.alignment,
+  normalized_alignment: text.normalized_alignment ?? audio.normalized_alignment,
+  sentAt: audio.sentAt > text.sentAt ? audio.sentAt : text.sentAt,
+  isPartial: false,
+});
+
+// Reconciles audio/text halves of tutor replies by pairId. It holds no timers and reads no clock;
+// callers pass the current time in, so live streams and history replay go through the same code.
+// It is also where messages seen twice, e.g. from the stream and a sync, are dropped.
+export class MessagePairer {
+  private seenIds: Set<string> = new Set();
+  private pending: Map<string, PendingPair> = new Map();
+  private emittedPartials: Map<string, PendingPair> = new Map();
+  private options: MessagePairerOptions;
+
+  constructor(options: Partial<MessagePairerOptions> = {}) {
+    this.options = { timeoutMs: DEFAULT_PAIRING_TIMEOUT_MS, ...options };
+  }
+
+  // Check if a message was added before
+  hasSeen(id: string): boolean {
+    return this.seenIds.has(id);
+  }
+
+  // Add a message and return the messages that are ready to show. A message added before returns nothing.
+  add(message: XmtpMessage, now: number): XmtpMessage[] {
+    if (this.seenIds.has(message.id)) {
+      return [];
+    }
+    this.seenIds.add(message.id);
+
+    const half = getPairHalf(message);
+    if (!half || !message.pairId) {
+      return [message];
+    }
+
+    const pairId = message.pairId;
+
+    // The other half already timed out and was shown on its own: complete it now
+    const partial = this.emittedPartials.get(pairId);
+    if (partial) {
+      partial[half] = message;
+      if (partial.audio && partial.text) {
+        this.emittedPartials.delete(pairId);
+        return [combinePair(partial.audio, partial.text)];
+      }
+      return [];
+    }
+
+    const entry = this.pending.get(pairId) ?? { firstSeenAt: now };
+    entry[half] = message;
+
+    if (entry.audio && entry.text) {
+      this.pending.delete(pairId);
+      return [combinePair(entry.audio, entry.text)];
+    }
+
+    this.pending.set(pairId, entry);
+    return [];
+  }
+
+  // Emit the halves that have waited longer than the timeout
+  flushExpired(now: number): XmtpMessage[] {
+    const expired: XmtpMessage[] = [];
+
+    for (const [pairId, entry] of this.pending) {
+      if (now - entry.firstSeenAt < this.options.timeoutMs) continue;
+
+      const half = entry.text ?? entry.audio;
+      this.pending.delete(pairId);
+      if (!half) continue;
+
+      this.emittedPartials.set(pairId, entry);
+      expired.push({ ...half, isPartial: true });
+    }
+
+    return expired;
+  }
+
+  // Get the time at which the next pending pair expires, or null if nothing is pending
+  nextDeadline(): number | null {
+    let deadline: number | null = null;
+    for (const entry of this.pending.values()) {
+      const expiresAt = entry.firstSeenAt + this.options.timeoutMs;
+      if (deadline === null || expiresAt < deadline) {
+        deadline = expiresAt;
+      }
+    }
+    return deadline;
+  }
+
+  // Forget all seen messages and pending and partially emitted pairs
+  clear() {
+    this.seenIds.clear();
+    this.pending.clear();
+    this.emittedPartials.clear();
+  }
+}
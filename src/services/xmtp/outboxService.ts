@@ -0,0 +1,340 @@
+import { tutorService } from "../tutor/tutorService";
+import { personaService, DEFAULT_PERSONA_ID } from "../config/personaService";
+
+// Types
+export type OutboxStatus = "queued" | "sending" | "sent" | "failed";
+
+export interface OutboxItem {
+  id: string;
+  address: string;
+  personaId: string;
+  blob: Blob;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: string;
+  nextAttemptAt?: number;
+}
+
+const DB_NAME = "scarlett-outbox";
+const DB_VERSION = 1;
+const STORE_NAME = "messages";
+
+// Outbox Service class
+class OutboxService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private items: OutboxItem[] = [];
+  private address: string = "";
+  private listeners: Set<(items: OutboxItem[]) => void> = new Set();
+  // The running drain of the queue. There is at most one, however often sending is triggered.
+  private processingPromise: Promise<void> | null = null;
+  private retryTimer: number | null = null;
+  private unsubscribeConnection: (() => void) | null = null;
+  private maxAutomaticAttempts = 5;
+  private sentItemLingerMs = 3000;
+
+  // Open (or create) the IndexedDB database
+  private openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+          store.createIndex("address", "address");
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  // Write an item to the database
+  private async persist(item: OutboxItem): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(item);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Delete an item from the database
+  private async remove(id: string): Promise<void> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).delete(id);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  // Load the stored items for an address
+  private async loadItems(address: string): Promise<OutboxItem[]> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .index("address")
+        .getAll(address);
+      request.onsuccess = () => resolve(request.result as OutboxItem[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Start the outbox for a wallet address, restoring unsent recordings
+  async start(address: string): Promise<void> {
+    this.stop();
+    this.address = address.toLowerCase();
+
+    // A recording still being sent is stored as sending, so wait for it rather than restoring it
+    // as queued and sending it twice. With the items cleared, the drain ends after that send.
+    await this.processingPromise;
+
+    try {
+      const storedItems = await this.loadItems(this.address);
+      // Anything that was mid-send when the page closed goes back in the queue. Recordings
+      // stored before personas existed were meant for the default tutor.
+      this.items = storedItems
+        .map((item) => ({ ...item, personaId: item.personaId ?? DEFAULT_PERSONA_ID }))
+        .map((item) => (item.status === "sending" ? { ...item, status: "queued" as const } : item))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      console.log(`[OutboxService] Restored ${this.items.length} unsent recordings`);
+    } catch (error) {
+      console.error("[OutboxService] Error loading outbox:", error);
+      this.items = [];
+    }
+
+    // Retry right away whenever the message stream comes back
+    this.unsubscribeConnection = tutorService.on("connectionState", (status) => {
+      if (status === "live") {
+        this.retryQueued();
+      }
+    });
+
+    this.notify();
+    this.processQueue();
+  }
+
+  // Stop processing and forget in-memory state. Stored recordings are kept.
+  stop() {
+    this.unsubscribeConnection?.();
+    this.unsubscribeConnection = null;
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.items = [];
+    this.address = "";
+    this.notify();
+  }
+
+  // Get the current outbox items
+  getItems(): OutboxItem[] {
+    return this.items;
+  }
+
+  // Subscribe to outbox changes. Returns an unsubscribe function.
+  subscribe(listener: (items: OutboxItem[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Notify listeners with a fresh copy of the items
+  private notify() {
+    this.items = [...this.items];
+    for (const listener of this.listeners) {
+      listener(this.items);
+    }
+  }
+
+  // Update an item in memory and in the database
+  private async updateItem(id: string, changes: Partial<OutboxItem>) {
+    const index = this.items.findIndex((item) => item.id === id);
+    if (index < 0) return;
+
+    const updated = { ...this.items[index], ...changes };
+    this.items[index] = updated;
+    this.notify();
+
+    try {
+      await this.persist(updated);
+    } catch (error) {
+      console.error("[OutboxService] Error saving outbox item:", error);
+    }
+  }
+
+  // Add a recording for the active persona to the outbox and start sending it. Rejects while the outbox
+  // is not started, since a recording stored without an address would never be restored.
+  async enqueue(blob: Blob): Promise<OutboxItem> {
+    if (!this.address) {
+      throw new Error("The outbox is not started, connect to the tutor first");
+    }
+
+    const item: OutboxItem = {
+      id: window.crypto.randomUUID(),
+      address: this.address,
+      personaId: personaService.getActivePersona().id,
+      blob,
+      createdAt: new Date().toISOString(),
+      status: "queued",
+      attempts: 0,
+    };
+
+    this.items.push(item);
+    this.notify();
+
+    try {
+      await this.persist(item);
+    } catch (error) {
+      // The recording can still be sent from memory, it just won't survive a reload
+      console.error("[OutboxService] Error saving recording to outbox:", error);
+    }
+
+    this.processQueue();
+    return item;
+  }
+
+  // Retry a failed recording
+  async retry(id: string) {
+    await this.updateItem(id, { status: "queued", attempts: 0, error: undefined, nextAttemptAt: undefined });
+    this.processQueue();
+  }
+
+  // Discard a recording that has not been sent
+  async discard(id: string) {
+    this.items = this.items.filter((item) => item.id !== id);
+    this.notify();
+
+    try {
+      await this.remove(id);
+    } catch (error) {
+      console.error("[OutboxService] Error removing outbox item:", error);
+    }
+  }
+
+  // Make all queued items due now
+  private retryQueued() {
+    this.items = this.items.map((item) =>
+      item.status === "queued" ? { ...item, nextAttemptAt: undefined } : item
+    );
+    this.processQueue();
+  }
+
+  // Get the delay before the next automatic attempt
+  private getRetryDelay(attempts: number): number {
+    return Math.min(2000 * 2 ** (attempts - 1), 60000);
+  }
+
+  // Send queued items in order, one at a time. Calls while the queue is being drained share that drain.
+  private processQueue(): Promise<void> {
+    if (this.processingPromise) {
+      return this.processingPromise;
+    }
+
+    // Resumed when the connection comes back
+    if (!tutorService.isConnected()) {
+      return Promise.resolve();
+    }
+
+    // Drain on the next microtask, so the promise is stored before the drain can finish and clear it
+    this.processingPromise = Promise.resolve().then(() => this.drainQueue());
+    return this.processingPromise;
+  }
+
+  // Send the items that are due until none is left
+  private async drainQueue() {
+    try {
+      for (;;) {
+        const now = Date.now();
+        const next = this.items.find(
+          (item) => item.status === "queued" && (!item.nextAttemptAt || item.nextAttemptAt <= now)
+        );
+        if (!next) break;
+
+        await this.send(next);
+      }
+    } finally {
+      // Cleared in the same step the last item was looked up, so an item queued after that starts a new drain
+      this.processingPromise = null;
+    }
+
+    this.scheduleRetry();
+  }
+
+  // Send a single item and record the outcome
+  private async send(item: OutboxItem) {
+    const attempts = item.attempts + 1;
+    await this.updateItem(item.id, { status: "sending", attempts });
+
+    const result = await tutorService.sendAudio(item.blob, item.personaId);
+
+    if (result.success) {
+      console.log(`[OutboxService] Sent recording ${item.id}`);
+      await this.updateItem(item.id, { status: "sent", error: undefined });
+
+      try {
+        await this.remove(item.id);
+      } catch (error) {
+        console.error("[OutboxService] Error removing sent item:", error);
+      }
+
+      // Keep the sent state visible briefly until the message shows up in the transcript
+      window.setTimeout(() => {
+        this.items = this.items.filter((existing) => existing.id !== item.id);
+        this.notify();
+      }, this.sentItemLingerMs);
+      return;
+    }
+
+    console.error(`[OutboxService] Failed to send recording ${item.id}: ${result.error}`);
+    // Errors that cannot go away by themselves, like a used up quota, wait for the learner
+    if (result.retryable === false || attempts >= this.maxAutomaticAttempts) {
+      await this.updateItem(item.id, { status: "failed", error: result.error });
+    } else {
+      await this.updateItem(item.id, {
+        status: "queued",
+        error: result.error,
+        nextAttemptAt: Date.now() + this.getRetryDelay(attempts),
+      });
+    }
+  }
+
+  // Schedule the next automatic retry, if any item is waiting
+  private scheduleRetry() {
+    if (this.retryTimer !== null) {
+      window.clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = this.items
+      .filter((item) => item.status === "queued" && item.nextAttemptAt)
+      .map((item) => item.nextAttemptAt as number);
+    if (waiting.length === 0) return;
+
+    const delay = Math.max(0, Math.min(...waiting) - Date.now());
+    this.retryTimer = window.setTimeout(() => {
+      this.retryTimer = null;
+      this.processQueue();
+    }, delay);
+  }
+}
+
+// Export a singleton instance
+export const outboxService = new OutboxService();
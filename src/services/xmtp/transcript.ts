@@ -0,0 +1,43 @@
+import { XmtpMessage } from "./xmtpService";
+
+// Get a sortable timestamp for a message
+export const getMessageTime = (message: XmtpMessage): number => {
+  const time = Date.parse(message.sentAt);
+  return Number.isNaN(time) ? 0 : time;
+};
+
+// Key used to dedupe transcript entries. Both halves of a tutor reply share a pairId,
+// so a combined reply replaces the partial half that was shown before it.
+const getMessageKey = (message: XmtpMessage): string =>
+  message.pairId ? `pair:${message.pairId}` : message.id;
+
+// Merge incoming messages into a transcript, replacing duplicates and keeping it sorted by send time
+export const mergeMessages = (existing: XmtpMessage[], incoming: XmtpMessage[]): XmtpMessage[] => {
+  if (incoming.length === 0) return existing;
+
+  const byId = new Map<string, XmtpMessage>();
+  for (const message of existing) {
+    byId.set(getMessageKey(message), message);
+  }
+  for (const message of incoming) {
+    byId.set(getMessageKey(message), message);
+  }
+
+  return Array.from(byId.values()).sort((a, b) => getMessageTime(a) - getMessageTime(b));
+};
+
+// Format the date separator label for a message
+export const formatDateLabel = (message: XmtpMessage): string => {
+  const time = getMessageTime(message);
+  if (!time) return "Unknown date";
+
+  const date = new Date(time);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return "Today";
+  if (date.toDateString() === yesterday.toDateString()) return "Yesterday";
+
+  return date.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric", year: "numeric" });
+};
@@ -0,0 +1,79 @@
+import { ConsentState, type Client, type Dm, type SafeListMessagesOptions } from "@xmtp/browser-sdk";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+
+// Types
+
+// A message as XmtpService reads it. The SDK's DecodedMessage has this shape.
+export interface TransportMessage {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  sentAtNs: bigint;
+  contentType: ContentTypeId;
+  content: any;
+}
+
+// A live message stream that can be closed with return()
+export interface TransportStream extends AsyncIterable<TransportMessage | undefined> {
+  return(value?: undefined): Promise<unknown>;
+}
+
+// A DM conversation with a tutor
+export interface TransportConversation {
+  id: string;
+  send(content: any, contentType?: ContentTypeId): Promise<string>;
+  sync(): Promise<unknown>;
+  messages(options?: SafeListMessagesOptions): Promise<TransportMessage[]>;
+  stream(): Promise<TransportStream>;
+}
+
+// Carries conversations between the user and the tutors
+export interface MessageTransport {
+  readonly kind: "xmtp" | "simulated";
+  // Inbox id of the user, used to tell their own messages apart
+  readonly inboxId: string;
+  findConversation(peerInboxId: string): Promise<TransportConversation | null>;
+  createConversation(peerInboxId: string): Promise<TransportConversation>;
+  // Fetch the conversation list from the network
+  syncConversations(): Promise<void>;
+  close(): void;
+}
+
+// Transport backed by a connected XMTP client
+export class XmtpClientTransport implements MessageTransport {
+  readonly kind = "xmtp";
+  private client: Client;
+
+  constructor(client: Client) {
+    this.client = client;
+  }
+
+  get inboxId(): string {
+    return this.client.inboxId ?? "";
+  }
+
+  async findConversation(peerInboxId: string): Promise<TransportConversation | null> {
+    const dm = await this.client.conversations.getDmByInboxId(peerInboxId);
+    return dm ? this.allow(dm) : null;
+  }
+
+  async createConversation(peerInboxId: string): Promise<TransportConversation> {
+    return this.allow(await this.client.conversations.newDm(peerInboxId));
+  }
+
+  async syncConversations(): Promise<void> {
+    await this.client.conversations.sync();
+  }
+
+  // Conversations with tutors are always allowed, so they never show up as message requests
+  private async allow(dm: Dm): Promise<Dm> {
+    if ((await dm.consentState()) !== ConsentState.Allowed) {
+      await dm.updateConsentState(ConsentState.Allowed);
+    }
+    return dm;
+  }
+
+  close() {
+    // The client is owned by XmtpService
+  }
+}
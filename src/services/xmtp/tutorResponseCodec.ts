@@ -0,0 +1,274 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+// Types
+export interface WordTimestamp {
+  text: string;
+  start_time: number;
+  end_time: number;
+}
+
+export interface CharacterAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+export interface TutorResponseAudio {
+  mimeType: string;
+  // Inline audio, base64 encoded
+  base64?: string;
+  // Filename of a separately sent attachment carrying the audio
+  filename?: string;
+}
+
+export interface TutorResponse {
+  text: string;
+  audio?: TutorResponseAudio;
+  wordTimestamps?: WordTimestamp[];
+  alignment?: CharacterAlignment;
+  normalizedAlignment?: CharacterAlignment;
+  pairId?: string;
+}
+
+export type TutorResponseParameters = {
+  version: string;
+};
+
+export const ContentTypeTutorResponse = new ContentTypeId({
+  authorityId: "scarlett.app",
+  typeId: "tutorResponse",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+// Error thrown when a tutor response payload does not match the schema
+export class TutorResponseValidationError extends Error {
+  constructor(message: string) {
+    super(`Invalid tutor response: ${message}`);
+    this.name = "TutorResponseValidationError";
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "number");
+
+// Validate word timestamps, accepting both the {text, start_time, end_time} and {word, start, end} shapes
+const parseWordTimestamps = (value: unknown): WordTimestamp[] => {
+  if (!Array.isArray(value)) {
+    throw new TutorResponseValidationError("wordTimestamps must be an array");
+  }
+
+  return value.map((item, index) => {
+    if (!isRecord(item)) {
+      throw new TutorResponseValidationError(`wordTimestamps[${index}] must be an object`);
+    }
+
+    const text = item.text ?? item.word;
+    const start = item.start_time ?? item.start;
+    const end = item.end_time ?? item.end;
+
+    if (typeof text !== "string" || typeof start !== "number" || typeof end !== "number") {
+      throw new TutorResponseValidationError(`wordTimestamps[${index}] is missing text or times`);
+    }
+
+    return { text, start_time: start, end_time: end };
+  });
+};
+
+// Validate a character alignment
+const parseAlignment = (value: unknown, field: string): CharacterAlignment => {
+  if (
+    !isRecord(value) ||
+    !Array.isArray(value.characters) ||
+    !value.characters.every((char) => typeof char === "string") ||
+    !isNumberArray(value.character_start_times_seconds) ||
+    !isNumberArray(value.character_end_times_seconds)
+  ) {
+    throw new TutorResponseValidationError(`${field} is malformed`);
+  }
+
+  const length = value.characters.length;
+  if (
+    value.character_start_times_seconds.length !== length ||
+    value.character_end_times_seconds.length !== length
+  ) {
+    throw new TutorResponseValidationError(`${field} arrays have different lengths`);
+  }
+
+  return {
+    characters: value.characters as string[],
+    character_start_times_seconds: value.character_start_times_seconds,
+    character_end_times_seconds: value.character_end_times_seconds,
+  };
+};
+
+// Validate an unknown value against the tutor response schema
+export const parseTutorResponse = (value: unknown): TutorResponse => {
+  if (!isRecord(value)) {
+    throw new TutorResponseValidationError("payload must be an object");
+  }
+  if (typeof value.text !== "string") {
+    throw new TutorResponseValidationError("text must be a string");
+  }
+
+  const response: TutorResponse = { text: value.text };
+
+  if (value.audio !== undefined) {
+    const audio = value.audio;
+    if (!isRecord(audio) || typeof audio.mimeType !== "string") {
+      throw new TutorResponseValidationError("audio must have a mimeType");
+    }
+    if (audio.base64 !== undefined && typeof audio.base64 !== "string") {
+      throw new TutorResponseValidationError("audio.base64 must be a string");
+    }
+    if (audio.filename !== undefined && typeof audio.filename !== "string") {
+      throw new TutorResponseValidationError("audio.filename must be a string");
+    }
+    response.audio = {
+      mimeType: audio.mimeType,
+      base64: audio.base64 as string | undefined,
+      filename: audio.filename as string | undefined,
+    };
+  }
+
+  if (value.wordTimestamps !== undefined) {
+    response.wordTimestamps = parseWordTimestamps(value.wordTimestamps);
+  }
+  if (value.alignment !== undefined) {
+    response.alignment = parseAlignment(value.alignment, "alignment");
+  }
+  if (value.normalizedAlignment !== undefined) {
+    response.normalizedAlignment = parseAlignment(value.normalizedAlignment, "normalizedAlignment");
+  }
+  if (value.pairId !== undefined) {
+    if (typeof value.pairId !== "string") {
+      throw new TutorResponseValidationError("pairId must be a string");
+    }
+    response.pairId = value.pairId;
+  }
+
+  return response;
+};
+
+// Convert base64 encoded audio to a Blob
+export const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const byteCharacters = atob(base64);
+  const byteArrays = [];
+
+  for (let offset = 0; offset < byteCharacters.length; offset += 512) {
+    const slice = byteCharacters.slice(offset, offset + 512);
+
+    const byteNumbers = new Array(slice.length);
+    for (let i = 0; i < slice.length; i++) {
+      byteNumbers[i] = slice.charCodeAt(i);
+    }
+
+    byteArrays.push(new Uint8Array(byteNumbers));
+  }
+
+  return new Blob(byteArrays, { type: mimeType });
+};
+
+// Convert the legacy JSON payloads the bot sends as text messages into a tutor response.
+// Returns null when the value is not one of the legacy formats.
+export const fromLegacyPayload = (value: unknown): TutorResponse | null => {
+  if (!isRecord(value)) return null;
+
+  // {"message_type": "audio_response", "content": {"text", "word_timestamps", "alignment"?, "normalized_alignment"?, "pair_id"}, "pair_id"}
+  if (value.message_type === "audio_response" && isRecord(value.content)) {
+    const content = value.content;
+    return parseTutorResponse({
+      text: typeof content.text === "string" ? content.text : "Audio message",
+      wordTimestamps: content.word_timestamps,
+      alignment: content.alignment,
+      normalizedAlignment: content.normalized_alignment,
+      pairId: content.pair_id ?? value.pair_id,
+    });
+  }
+
+  // {"text", "audio_base64", "alignment", "normalized_alignment", "word_timestamps", "pair_id"}
+  if (typeof value.audio_base64 === "string") {
+    return parseTutorResponse({
+      text: typeof value.text === "string" ? value.text : "Audio message",
+      audio: { mimeType: "audio/mp3", base64: value.audio_base64 },
+      wordTimestamps: value.word_timestamps,
+      alignment: value.alignment,
+      normalizedAlignment: value.normalized_alignment,
+      pairId: value.pair_id,
+    });
+  }
+
+  // {"text", "wordTimestamps": [{"word", "start", "end"}], "audioCorrelationId"}
+  if (typeof value.text === "string" && Array.isArray(value.wordTimestamps)) {
+    return parseTutorResponse({
+      text: value.text,
+      wordTimestamps: value.wordTimestamps,
+      pairId: value.audioCorrelationId,
+    });
+  }
+
+  return null;
+};
+
+// XMTP codec for tutor responses
+export class TutorResponseCodec implements ContentCodec<TutorResponse, TutorResponseParameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeTutorResponse;
+  }
+
+  encode(content: TutorResponse): EncodedContent<TutorResponseParameters> {
+    const validated = parseTutorResponse(content);
+    return {
+      type: ContentTypeTutorResponse,
+      parameters: {
+        version: `${ContentTypeTutorResponse.versionMajor}.${ContentTypeTutorResponse.versionMinor}`,
+      },
+      content: new TextEncoder().encode(JSON.stringify(validated)),
+    };
+  }
+
+  decode(content: EncodedContent<TutorResponseParameters>): TutorResponse {
+    // The SDK decodes while building each message, so throwing here would break loading the whole
+    // conversation. Invalid or unsupported payloads fall back to their text instead.
+    try {
+      return this.decodeOrThrow(content);
+    } catch (error) {
+      console.error("[TutorResponseCodec] Error decoding tutor response:", error);
+      return { text: content.fallback || "[Unsupported tutor response]" };
+    }
+  }
+
+  // Decode and validate a payload, throwing on invalid or unsupported content
+  decodeOrThrow(content: EncodedContent<TutorResponseParameters>): TutorResponse {
+    // Minor versions only add optional fields, so any 1.x payload can be read
+    if (content.type.versionMajor !== ContentTypeTutorResponse.versionMajor) {
+      throw new TutorResponseValidationError(
+        `unsupported version ${content.type.versionMajor}.${content.type.versionMinor}`
+      );
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(new TextDecoder().decode(content.content));
+    } catch {
+      throw new TutorResponseValidationError("payload is not valid JSON");
+    }
+
+    return parseTutorResponse(json);
+  }
+
+  fallback(content: TutorResponse): string | undefined {
+    return content.text;
+  }
+
+  shouldPush(): boolean {
+    return true;
+  }
+}
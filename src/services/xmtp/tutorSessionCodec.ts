@@ -0,0 +1,57 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+// Types
+// Tells the bot which Sign-In With Ethereum session the following messages belong to
+export interface TutorSession {
+  token: string;
+}
+
+export type TutorSessionParameters = {
+  version: string;
+};
+
+export const ContentTypeTutorSession = new ContentTypeId({
+  authorityId: "scarlett.app",
+  typeId: "tutorSession",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+// XMTP codec for session announcements. They are never shown in the transcript.
+export class TutorSessionCodec implements ContentCodec<TutorSession, TutorSessionParameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeTutorSession;
+  }
+
+  encode(content: TutorSession): EncodedContent<TutorSessionParameters> {
+    return {
+      type: ContentTypeTutorSession,
+      parameters: {
+        version: `${ContentTypeTutorSession.versionMajor}.${ContentTypeTutorSession.versionMinor}`,
+      },
+      content: new TextEncoder().encode(JSON.stringify({ token: content.token })),
+    };
+  }
+
+  decode(content: EncodedContent<TutorSessionParameters>): TutorSession {
+    try {
+      const json = JSON.parse(new TextDecoder().decode(content.content));
+      return { token: typeof json?.token === "string" ? json.token : "" };
+    } catch (error) {
+      console.error("[TutorSessionCodec] Error decoding tutor session:", error);
+      return { token: "" };
+    }
+  }
+
+  fallback(): string | undefined {
+    return undefined;
+  }
+
+  shouldPush(): boolean {
+    return false;
+  }
+}
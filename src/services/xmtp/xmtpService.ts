@@ -1,12 +1,47 @@
-import { Client, type Signer, DecodedMessage, Dm, Group } from "@xmtp/browser-sdk";
-import { ethers } from "ethers";
+import { Client, Group, SortDirection, ConsentState } from "@xmtp/browser-sdk";
 import {
   ContentTypeAttachment,
   AttachmentCodec,
   RemoteAttachmentCodec,
   ContentTypeRemoteAttachment,
+  type Attachment,
+  type RemoteAttachment,
 } from "@xmtp/content-type-remote-attachment";
 import { authService } from "../silk/authService";
+import { siweService } from "../silk/siweService";
+import { entitlementService } from "../entitlements/entitlementService";
+import { keyStorageService, KeyUnlockError } from "./keyStorageService";
+import { createXmtpSigner } from "./xmtpSigner";
+import { configService } from "../config/configService";
+import { personaService, type TutorPersona } from "../config/personaService";
+import { MessagePairer, DEFAULT_PAIRING_TIMEOUT_MS } from "./messagePairing";
+import { type AttachmentUploader, DevServerUploader, assertHttpsUrl } from "./attachmentStorage";
+import {
+  XmtpClientTransport,
+  type MessageTransport,
+  type TransportConversation,
+  type TransportMessage,
+  type TransportStream,
+} from "./transport";
+import { demoModeService, DEMO_USER_ADDRESS } from "../demo/demoModeService";
+import { SimulatedTutorTransport } from "../demo/simulatedTutorTransport";
+import type { TutorTransport, TutorConnectResult } from "../tutor/tutorTransport";
+import {
+  TutorEventEmitter,
+  emitReadyMessage,
+  type TutorEventName,
+  type TutorEventListener,
+} from "../tutor/tutorEvents";
+import {
+  TutorResponseCodec,
+  ContentTypeTutorResponse,
+  fromLegacyPayload,
+  base64ToBlob,
+  type TutorResponse,
+  type WordTimestamp,
+  type CharacterAlignment,
+} from "./tutorResponseCodec";
+import { TutorSessionCodec, ContentTypeTutorSession } from "./tutorSessionCodec";
 
 // Types
 export interface XmtpMessage {
@@ -19,22 +54,12 @@ export interface XmtpMessage {
   isFromMe: boolean;
   isFromBot: boolean;
   audioUrl?: string;
-  alignment?: {
-    characters: string[];
-    character_start_times_seconds: number[];
-    character_end_times_seconds: number[];
-  };
-  normalized_alignment?: {
-    characters: string[];
-    character_start_times_seconds: number[];
-    character_end_times_seconds: number[];
-  };
-  wordTimestamps?: {
-    text: string;
-    start_time: number;
-    end_time: number;
-  }[];
+  alignment?: CharacterAlignment;
+  normalized_alignment?: CharacterAlignment;
+  wordTimestamps?: WordTimestamp[];
   pairId?: string;
+  isPartial?: boolean;
+  personaId?: string;
 }
 
 export interface XmtpConversation {
@@ -42,24 +67,126 @@ export interface XmtpConversation {
   messages: XmtpMessage[];
 }
 
+export type ConnectionStatus = "live" | "reconnecting" | "offline";
+
+export interface XmtpInstallation {
+  id: string;
+  createdAt?: string;
+  isCurrent: boolean;
+}
+
+// A denied DM from someone who is not one of the tutors, which the user can allow
+export interface MessageRequest {
+  conversationId: string;
+  peerInboxId: string;
+  preview: string[];
+  lastMessageAt?: string;
+}
+
+// State kept for the conversation with one tutor persona
+interface PersonaConversation {
+  persona: TutorPersona;
+  dm: TransportConversation | null;
+  isListening: boolean;
+  streamGeneration: number | null;
+  connectionStatus: ConnectionStatus;
+  messagePairer: MessagePairer;
+  pairingTimer: number | null;
+  shownPartials: Set<string>;
+  lastSeenNs: bigint | null;
+  historyCursorNs: bigint | null;
+  historyExhausted: boolean;
+  isLoadingHistory: boolean;
+  // The session token the bot was last told about in this conversation
+  announcedToken: string | null;
+}
+
 // XMTP Service class
-class XmtpService {
+class XmtpService implements TutorTransport {
+  readonly kind = "xmtp" as const;
   private client: Client | null = null;
+  private transport: MessageTransport | null = null;
   private messageStreams: any[] = [];
+  private streamGeneration: number = 0;
+  private connectionStatus: ConnectionStatus = "offline";
+  private events = new TutorEventEmitter();
+  private maxReconnectAttemptsBeforeOffline = 5;
+  private maxInlineAttachmentSize = 1024 * 1024;
+  private attachmentUploader: AttachmentUploader = new DevServerUploader();
   private connectionTimestamp: number = 0;
-  private processedMessageIds: Set<string> = new Set();
-  private pendingAudioMessages: Map<string, XmtpMessage> = new Map();
-  private pendingTextMessages: Map<string, XmtpMessage> = new Map();
-  private botInboxId = "633b88245faf4bf9ff6bf6423c413f0a4329c052ab7f728932998ca4a3b438ce"; 
+  private personaConversations: Map<string, PersonaConversation> = new Map();
+  private historyPageSize = 30n;
+  private lastSyncedAt: Date | null = null;
+  private syncListeners: Set<(lastSyncedAt: Date) => void> = new Set();
+  private isSyncing: boolean = false;
+  private backgroundSyncTimer: number | null = null;
+  private backgroundSyncIntervalMs = 60000;
+  // The wallet address the client was created for
+  private clientAddress: string = "";
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.restartStreams);
+      window.addEventListener('offline', this.handleOffline);
+      // Pick up turns taken on other devices when the user comes back to the tab
+      window.addEventListener('focus', this.handleTabFocus);
+      document.addEventListener('visibilitychange', this.handleTabFocus);
+    }
+    
+    // The client and its streams belong to one identity and cannot follow the wallet to another
+    authService.subscribe((state) => {
+      if (!this.client || state.address.toLowerCase() === this.clientAddress.toLowerCase()) return;
+      console.log("[XmtpService] Wallet identity changed, closing the XMTP client");
+      this.disconnect();
+    });
+  }
+
+  // Get the conversation state for a persona, defaulting to the active one
+  private getPersonaConversation(personaId?: string): PersonaConversation {
+    const persona = personaId ? personaService.getPersona(personaId) : personaService.getActivePersona();
+    if (!persona) {
+      throw new Error(`Unknown persona "${personaId}"`);
+    }
+    
+    let state = this.personaConversations.get(persona.id);
+    if (!state) {
+      state = {
+        persona,
+        dm: null,
+        isListening: false,
+        streamGeneration: null,
+        connectionStatus: "offline",
+        messagePairer: new MessagePairer({ timeoutMs: DEFAULT_PAIRING_TIMEOUT_MS }),
+        pairingTimer: null,
+        shownPartials: new Set(),
+        lastSeenNs: null,
+        historyCursorNs: null,
+        historyExhausted: false,
+        isLoadingHistory: false,
+        announcedToken: null,
+      };
+      this.personaConversations.set(persona.id, state);
+    }
+    
+    return state;
+  }
 
   // Connect to XMTP
-  async connect(): Promise<{ success: boolean; error?: string; address?: string }> {
+  async connect(): Promise<TutorConnectResult> {
     console.log("[XmtpService] Connect method called");
     
     // If already connected, return success immediately
-    if (this.client) {
-      console.log("[XmtpService] Already connected to XMTP, returning existing connection");
-      return { success: true, address: authService.getUserAddress() };
+    if (this.transport) {
+      console.log("[XmtpService] Already connected, returning existing connection");
+      return { success: true, address: this.getUserAddress() };
+    }
+    
+    // Demo mode talks to simulated tutors and needs no wallet
+    if (demoModeService.isEnabled()) {
+      console.log("[XmtpService] Demo mode, using the simulated tutor transport");
+      this.connectionTimestamp = Date.now();
+      this.transport = new SimulatedTutorTransport();
+      return { success: true, address: DEMO_USER_ADDRESS };
     }
     
     try {
@@ -69,6 +196,9 @@ class XmtpService {
         return { success: false, error: "Not connected to wallet" };
       }
 
+      // Read and validate the configuration before asking for any signatures
+      const config = configService.getConfig();
+      
       // Set connection timestamp
       this.connectionTimestamp = Date.now();
       console.log(`[XmtpService] Set connection timestamp: ${this.connectionTimestamp}`);
@@ -83,37 +213,17 @@ class XmtpService {
         return { success: false, error: "Failed to get wallet details" };
       }
 
-      // Create a signer for XMTP using ethers
+      // Create a signer for XMTP, matching the kind of account the wallet uses
       console.log("[XmtpService] Creating XMTP signer");
-      const signer: Signer = {
-        getIdentifier: async () => {
-          return {
-            identifier: userAddress,
-            identifierKind: "Ethereum"
-          };
-        },
-        signMessage: async (message: string) => {
-          try {
-            console.log("[XmtpService] Signing message with ethers");
-            // Use ethers for consistent signing
-            const signature = await ethersSigner.signMessage(message);
-            
-            // Convert the hex signature to Uint8Array as required by XMTP
-            const signatureBytes = ethers.utils.arrayify(signature);
-            console.log("[XmtpService] Message signed successfully");
-            
-            return signatureBytes;
-          } catch (err) {
-            console.error("[XmtpService] Error signing message:", err);
-            throw err;
-          }
-        },
-        type: "EOA",
-      };
+      const signer = await createXmtpSigner(userAddress, ethersSigner);
 
-      // Generate a random encryption key for the local database
-      console.log("[XmtpService] Generating encryption key");
-      const encryptionKey = window.crypto.getRandomValues(new Uint8Array(32));
+      // Load the stored encryption key for the local database so the same installation is reused
+      console.log("[XmtpService] Loading encryption key");
+      const { key: encryptionKey, isNew } = await keyStorageService.getOrCreateEncryptionKey(
+        userAddress,
+        ethersSigner
+      );
+      console.log(`[XmtpService] Using ${isNew ? "new" : "stored"} encryption key`);
       
       // Create the XMTP client with codecs
       console.log("[XmtpService] Creating XMTP client");
@@ -121,18 +231,30 @@ class XmtpService {
         signer,
         encryptionKey,
         {
-          env: "dev", // Use "production" for production
+          env: config.xmtpEnv,
           codecs: [
             new AttachmentCodec(),
-            new RemoteAttachmentCodec()
+            new RemoteAttachmentCodec(),
+            new TutorResponseCodec(),
+            new TutorSessionCodec()
           ]
         }
       );
+      this.transport = new XmtpClientTransport(this.client);
+      this.clientAddress = userAddress;
       console.log("[XmtpService] XMTP client created successfully");
+      
+      // Fetch conversations created on other devices before anything looks them up
+      await this.syncNow();
+      this.startBackgroundSync();
 
       return { success: true, address: userAddress };
     } catch (error) {
       console.error("[XmtpService] Error connecting to XMTP:", error);
+      if (error instanceof KeyUnlockError) {
+        return { success: false, error: error.message, keyUnlockFailed: true };
+      }
+      
       let errorMessage = "Failed to connect to XMTP";
       
       if (error instanceof Error) {
@@ -148,17 +270,28 @@ class XmtpService {
   // Disconnect from XMTP
   disconnect() {
     console.log("[XmtpService] Disconnect method called");
-    this.client = null;
+    this.stopBackgroundSync();
     this.closeAllStreams();
-    this.processedMessageIds.clear();
-    this.pendingAudioMessages.clear();
-    this.pendingTextMessages.clear();
+    this.transport?.close();
+    this.transport = null;
+    this.client = null;
+    this.clientAddress = "";
+    for (const state of this.personaConversations.values()) {
+      if (state.pairingTimer !== null) {
+        window.clearTimeout(state.pairingTimer);
+      }
+    }
+    this.personaConversations.clear();
+    this.lastSyncedAt = null;
+    this.setConnectionStatus("offline");
     console.log("[XmtpService] Disconnected and cleared all state");
   }
 
   // Close all message streams
   private closeAllStreams() {
     console.log(`[XmtpService] Closing ${this.messageStreams.length} message streams`);
+    // Stop the reconnect loops of the streams being closed
+    this.streamGeneration++;
     for (const stream of this.messageStreams) {
       if (stream && typeof stream.return === 'function') {
         stream.return();
@@ -169,30 +302,161 @@ class XmtpService {
 
   // Check if connected to XMTP
   isConnected(): boolean {
-    const connected = !!this.client;
+    const connected = !!this.transport;
     console.log(`[XmtpService] isConnected check: ${connected}`);
     return connected;
   }
 
   // Get user address
   getUserAddress(): string {
+    if (this.transport?.kind === "simulated") {
+      return DEMO_USER_ADDRESS;
+    }
     return authService.getUserAddress();
   }
 
-  // Send a message to the bot
-  async sendMessage(audioData: Blob): Promise<{ success: boolean; error?: string }> {
+  // List the installations registered for the current inbox
+  async getInstallations(): Promise<XmtpInstallation[]> {
+    if (!this.client) return [];
+
+    try {
+      const inboxState = await this.client.preferences.inboxState(true);
+      return inboxState.installations.map((installation) => ({
+        id: installation.id,
+        createdAt: installation.clientTimestampNs
+          ? new Date(Number(installation.clientTimestampNs / BigInt(1000000))).toISOString()
+          : undefined,
+        isCurrent: installation.id === this.client?.installationId,
+      }));
+    } catch (error) {
+      console.error("[XmtpService] Error loading installations:", error);
+      return [];
+    }
+  }
+
+  // Revoke every installation except the current one
+  async revokeOtherInstallations(): Promise<{ success: boolean; error?: string }> {
+    if (!this.client) {
+      return { success: false, error: "Not connected to XMTP" };
+    }
+
+    try {
+      console.log("[XmtpService] Revoking all other installations");
+      await this.client.revokeAllOtherInstallations();
+      return { success: true };
+    } catch (error) {
+      console.error("[XmtpService] Error revoking installations:", error);
+
+      let errorMessage = "Failed to revoke installations";
+      if (error instanceof Error) {
+        errorMessage += `: ${error.message}`;
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Deny DMs from senders that are not tutors. They stay listed as message requests so the user can allow them.
+  private async denyUnknownSenders(): Promise<void> {
+    if (!this.client) return;
+
+    const tutorInboxIds = new Set(personaService.getPersonas().map((persona) => persona.inboxId));
+    const dms = await this.client.conversations.listDms({ consentStates: [ConsentState.Unknown] });
+
+    for (const dm of dms) {
+      if (tutorInboxIds.has(await dm.peerInboxId())) continue;
+
+      await dm.updateConsentState(ConsentState.Denied);
+      console.log(`[XmtpService] Denied DM ${dm.id} from an unknown sender`);
+    }
+  }
+
+  // List denied DMs from senders that are not tutors. They are kept out of the transcript until the user allows them.
+  async getMessageRequests(): Promise<MessageRequest[]> {
+    if (!this.client) return [];
+
     try {
-      if (!this.client) {
+      await this.denyUnknownSenders();
+
+      const tutorInboxIds = new Set(personaService.getPersonas().map((persona) => persona.inboxId));
+      const dms = await this.client.conversations.listDms({ consentStates: [ConsentState.Denied] });
+      const requests: MessageRequest[] = [];
+
+      for (const dm of dms) {
+        const peerInboxId = await dm.peerInboxId();
+        if (tutorInboxIds.has(peerInboxId)) continue;
+
+        const latest = await dm.messages({ limit: 3n, direction: SortDirection.Descending });
+        requests.push({
+          conversationId: dm.id,
+          peerInboxId,
+          // Only text is previewed; nothing from an unknown sender is decoded further or played
+          preview: latest
+            .reverse()
+            .map((message) =>
+              typeof message.content === "string" ? message.content : `[${message.contentType?.typeId || "unknown"} message]`
+            ),
+          lastMessageAt: latest.length > 0
+            ? new Date(Number(latest[latest.length - 1].sentAtNs / BigInt(1000000))).toISOString()
+            : undefined,
+        });
+      }
+
+      return requests;
+    } catch (error) {
+      console.error("[XmtpService] Error loading message requests:", error);
+      return [];
+    }
+  }
+
+  // Allow or deny a message request
+  async respondToMessageRequest(conversationId: string, allow: boolean): Promise<{ success: boolean; error?: string }> {
+    if (!this.client) {
+      return { success: false, error: "Not connected to XMTP" };
+    }
+
+    try {
+      const conversation = await this.client.conversations.getConversationById(conversationId);
+      if (!conversation) {
+        return { success: false, error: "Conversation not found" };
+      }
+
+      await conversation.updateConsentState(allow ? ConsentState.Allowed : ConsentState.Denied);
+      console.log(`[XmtpService] ${allow ? "Allowed" : "Denied"} message request ${conversationId}`);
+      return { success: true };
+    } catch (error) {
+      console.error("[XmtpService] Error updating consent:", error);
+
+      let errorMessage = "Failed to update the message request";
+      if (error instanceof Error) {
+        errorMessage += `: ${error.message}`;
+      }
+
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Send a recording to a persona, by default the active one
+  async sendAudio(audioData: Blob, personaId?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!this.transport) {
         return { success: false, error: "Not connected to XMTP" };
       }
       
-      // Check if audio data is too large (1MB limit)
-      if (audioData.size > 1024 * 1024) {
-        return { success: false, error: "Audio file is too large (max 1MB)" };
+      // Recordings count against the daily limit of the learner's plan
+      const allowed = entitlementService.checkVoiceTurn();
+      if (!allowed.success) {
+        return allowed;
+      }
+      
+      const lengthAllowed = await entitlementService.checkRecordingLength(audioData);
+      if (!lengthAllowed.success) {
+        return lengthAllowed;
       }
       
-      // Create conversation with the bot using inbox ID directly
-      const conversation = await this.client.conversations.newDm(this.botInboxId);
+      const state = this.getPersonaConversation(personaId);
+      const conversation = await this.getOrCreatePersonaDm(state);
+      await this.announceSession(state, conversation);
       
       // Convert Blob to Uint8Array
       const arrayBuffer = await audioData.arrayBuffer();
@@ -205,8 +469,17 @@ class XmtpService {
         data: uint8Array
       };
       
+      // Large recordings do not fit in a message, so upload them encrypted and send a reference
+      if (audioData.size > this.maxInlineAttachmentSize && this.transport.kind === "xmtp") {
+        const remoteAttachment = await this.uploadAttachment(attachment);
+        await conversation.send(remoteAttachment, ContentTypeRemoteAttachment);
+        entitlementService.recordVoiceTurn();
+        return { success: true };
+      }
+      
       // Send the attachment
       await conversation.send(attachment, ContentTypeAttachment);
+      entitlementService.recordVoiceTurn();
       
       return { success: true };
     } catch (error) {
@@ -221,18 +494,97 @@ class XmtpService {
     }
   }
 
-  // Process a message
-  private processMessage(message: DecodedMessage): XmtpMessage | null {
-    if (!message) return null;
+  // Send a typed text message to a persona, by default the active one
+  async sendText(text: string, personaId?: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!this.transport) {
+        return { success: false, error: "Not connected to XMTP" };
+      }
+      
+      const trimmedText = text.trim();
+      if (!trimmedText) {
+        return { success: false, error: "Message is empty" };
+      }
+      
+      const state = this.getPersonaConversation(personaId);
+      const conversation = await this.getOrCreatePersonaDm(state);
+      await this.announceSession(state, conversation);
+      
+      // Plain strings are sent with the default text codec
+      await conversation.send(trimmedText);
+      
+      return { success: true };
+    } catch (error) {
+      console.error("Error sending text message:", error);
+      
+      let errorMessage = "Failed to send message";
+      if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+      
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  // Use a different backend for uploading large attachments
+  setAttachmentUploader(uploader: AttachmentUploader) {
+    this.attachmentUploader = uploader;
+  }
+
+  // Encrypt an attachment, upload it and build the remote attachment that points at it
+  private async uploadAttachment(attachment: Attachment): Promise<RemoteAttachment> {
+    console.log(`[XmtpService] Uploading ${attachment.data.byteLength} byte attachment`);
+    const encrypted = await RemoteAttachmentCodec.encodeEncrypted(attachment, new AttachmentCodec());
+    const url = await this.attachmentUploader.upload(encrypted.payload, attachment.filename);
+    // Fail with a clear message here rather than inside the codec when the message is encoded
+    assertHttpsUrl(url);
     
-    // Check if we've already processed this message
-    const messageKey = `${message.id}-${message.conversationId}`;
-    if (this.processedMessageIds.has(messageKey)) {
-      return null;
+    return {
+      url,
+      contentDigest: encrypted.digest,
+      salt: encrypted.salt,
+      nonce: encrypted.nonce,
+      secret: encrypted.secret,
+      scheme: `${new URL(url).protocol}//`,
+      contentLength: encrypted.payload.byteLength,
+      filename: attachment.filename,
+    };
+  }
+
+  // Download and decrypt a remote attachment
+  private async loadRemoteAttachment(message: TransportMessage): Promise<Attachment | undefined> {
+    if (!this.client || !message.contentType?.sameAs(ContentTypeRemoteAttachment)) {
+      return undefined;
     }
     
-    // Mark this message as processed
-    this.processedMessageIds.add(messageKey);
+    try {
+      return (await RemoteAttachmentCodec.load(message.content as RemoteAttachment, this.client)) as Attachment;
+    } catch (error) {
+      console.error("[XmtpService] Error loading remote attachment:", error);
+      return undefined;
+    }
+  }
+
+  // Tell the bot which session the next messages belong to, once per conversation and token
+  private async announceSession(state: PersonaConversation, conversation: TransportConversation) {
+    const token = siweService.getToken();
+    if (!token || token === state.announcedToken || this.transport?.kind !== "xmtp") return;
+    
+    console.log(`[XmtpService] Sending the session token to ${state.persona.name}`);
+    await conversation.send({ token }, ContentTypeTutorSession);
+    state.announcedToken = token;
+  }
+
+  // Process a message. Remote attachments are passed in already downloaded.
+  private processMessage(
+    state: PersonaConversation,
+    message: TransportMessage,
+    remoteAttachment?: Attachment
+  ): XmtpMessage | null {
+    if (!message) return null;
+    
+    // Session announcements are for the bot only
+    if (message.contentType?.sameAs(ContentTypeTutorSession)) return null;
     
     // Format sent time from nanoseconds
     const sentAt = message.sentAtNs ? 
@@ -247,8 +599,10 @@ class XmtpService {
     // Check if this is a new message (sent after we connected)
     const isNewMessage = messageSentTimestamp > this.connectionTimestamp;
     
-    // Check if this is from the bot
-    const isFromBot = message.senderInboxId === this.botInboxId;
+    // Classify the sender. Anyone who is neither the user nor the persona's bot is unknown,
+    // and their messages are never treated as tutor replies.
+    const isFromMe = !!this.transport?.inboxId && message.senderInboxId === this.transport.inboxId;
+    const isFromBot = message.senderInboxId === state.persona.inboxId;
     
     const userAddress = authService.getUserAddress();
     
@@ -257,101 +611,41 @@ class XmtpService {
                          (typeof message.content === 'string');
     
     // Check if this is an attachment (audio, image, etc.)
-    const isAttachment = message.contentType?.typeId === 'attachment' || 
+    const isAttachment = !!remoteAttachment || 
+                        message.contentType?.typeId === 'attachment' || 
                         (message.contentType?.authorityId === 'xmtp.org' && 
                          message.contentType?.typeId === 'attachment');
     
     // Create a more user-friendly display for the message
     let displayContent = '';
     let audioUrl: string | null = null;
-    let alignment = undefined;
-    let normalized_alignment = undefined;
-    let wordTimestamps = undefined;
-    let pairId = undefined;
+    let alignment: CharacterAlignment | undefined = undefined;
+    let normalized_alignment: CharacterAlignment | undefined = undefined;
+    let wordTimestamps: WordTimestamp[] | undefined = undefined;
+    let pairId: string | undefined = undefined;
     
-    if (isTextMessage) {
-      try {
-        if (typeof message.content === 'string') {
-          // Try to parse as JSON if it looks like JSON
-          if (message.content.trim().startsWith('{') && message.content.trim().endsWith('}')) {
-            try {
-              const jsonContent = JSON.parse(message.content);
-              console.log('Parsed JSON content:', jsonContent);
-              
-              // Check if it's our audio response format
-              if (jsonContent.message_type === 'audio_response' && jsonContent.content) {
-                displayContent = jsonContent.content.text || "Audio message";
-                
-                // Extract word timestamps if available
-                if (jsonContent.content.word_timestamps) {
-                  wordTimestamps = jsonContent.content.word_timestamps;
-                }
-                
-                // Extract pair ID if available - check both locations
-                if (jsonContent.content.pair_id) {
-                  pairId = jsonContent.content.pair_id;
-                  console.log('Found pair ID in text message content:', pairId);
-                } else if (jsonContent.pair_id) {
-                  pairId = jsonContent.pair_id;
-                  console.log('Found pair ID in root of text message:', pairId);
-                }
-              } else {
-                displayContent = message.content;
-              }
-            } catch (e) {
-              // Not valid JSON, use as is
-              console.error('Error parsing JSON:', e);
-              displayContent = message.content;
-            }
-          } else {
-            displayContent = message.content;
-          }
-        } else if (message.content && typeof message.content === 'object') {
-          // Try to parse as JSON
-          const jsonContent = message.content as any;
-          
-          if (jsonContent.audio_base64) {
-            // This is a response with audio and alignment
-            displayContent = jsonContent.text || "Audio message";
-            
-            // Create audio URL from base64
-            const audioBlob = this.base64ToBlob(jsonContent.audio_base64, 'audio/mp3');
-            audioUrl = URL.createObjectURL(audioBlob);
-            
-            // Extract alignment data
-            if (jsonContent.alignment) {
-              alignment = jsonContent.alignment;
-            }
-            
-            if (jsonContent.normalized_alignment) {
-              normalized_alignment = jsonContent.normalized_alignment;
-            }
-            
-            // Extract word timestamps if available
-            if (jsonContent.word_timestamps) {
-              wordTimestamps = jsonContent.word_timestamps;
-            }
-            
-            // Extract pair ID if available
-            if (jsonContent.pair_id) {
-              pairId = jsonContent.pair_id;
-            }
-          } else {
-            // Regular JSON content
-            displayContent = JSON.stringify(jsonContent);
-          }
-        } else {
-          displayContent = String(message.content);
-        }
-      } catch (e) {
-        console.error("Error processing text message:", e);
-        displayContent = typeof message.content === 'string' ? message.content : "Error processing message content";
+    // Tutor replies arrive either with the typed codec or as legacy JSON in a text message
+    const tutorResponse = isFromBot ? this.getTutorResponse(message) : null;
+    
+    if (tutorResponse) {
+      displayContent = tutorResponse.text || "Audio message";
+      wordTimestamps = tutorResponse.wordTimestamps;
+      alignment = tutorResponse.alignment;
+      normalized_alignment = tutorResponse.normalizedAlignment;
+      pairId = tutorResponse.pairId;
+      
+      // Create audio URL from inline base64 audio
+      if (tutorResponse.audio?.base64) {
+        const audioBlob = base64ToBlob(tutorResponse.audio.base64, tutorResponse.audio.mimeType);
+        audioUrl = URL.createObjectURL(audioBlob);
       }
+    } else if (isTextMessage) {
+      displayContent = typeof message.content === 'string' ? message.content : JSON.stringify(message.content);
     } else if (isAttachment) {
       // Handle attachment content
       try {
         if (message.content && typeof message.content === 'object') {
-          const attachment = message.content as any;
+          const attachment = (remoteAttachment ?? message.content) as any;
           
           // Check if this is an audio attachment
           const isAudio = attachment.mimeType && attachment.mimeType.startsWith('audio/');
@@ -364,13 +658,11 @@ class XmtpService {
             // Set display content to indicate it's an audio message
             displayContent = `🔊 Audio message: ${attachment.filename || 'audio file'}`;
             
-            // Try to extract pair ID from filename
-            if (attachment.filename && attachment.filename.startsWith('response-') && attachment.filename.endsWith('.mp3')) {
-              const potentialPairId = attachment.filename.replace('response-', '').replace('.mp3', '');
-              if (potentialPairId.match(/^[0-9a-f-]+$/)) {
-                pairId = potentialPairId;
-                console.log('Found pair ID in audio filename:', pairId);
-              }
+            // Try to extract pair ID from filename, e.g. response-<pairId>.mp3
+            const pairIdMatch = attachment.filename?.match(/^response-([0-9a-f-]+)\.(mp3|wav)$/);
+            if (pairIdMatch && isFromBot) {
+              pairId = pairIdMatch[1];
+              console.log('Found pair ID in audio filename:', pairId);
             }
           } else {
             // For non-audio attachments, just show the filename
@@ -383,6 +675,9 @@ class XmtpService {
         console.error("Error processing attachment:", e);
         displayContent = `📎 Attachment (error processing)`;
       }
+    } else if (message.contentType?.sameAs(ContentTypeRemoteAttachment)) {
+      // The download or decryption of the remote attachment failed
+      displayContent = `📎 Attachment (could not be downloaded)`;
     } else {
       // For non-text, non-attachment messages, try to extract useful content
       if (typeof message.content === 'object' && message.content !== null) {
@@ -405,270 +700,434 @@ class XmtpService {
       content: displayContent,
       contentType: message.contentType?.typeId || 'unknown',
       sentAt,
-      isFromMe: message.senderInboxId !== this.botInboxId,
+      isFromMe,
       isFromBot,
       audioUrl: audioUrl || undefined,
       alignment,
       normalized_alignment,
       wordTimestamps,
-      pairId
+      pairId,
+      personaId: state.persona.id
     };
     
-    // Check if this message has a pair ID and needs to be paired
-    if (pairId) {
-      console.log(`Processing message with pair ID ${pairId}. Has audio: ${!!audioUrl}, Has wordTimestamps: ${!!wordTimestamps}`);
-      
-      // If it's an audio message
-      if (audioUrl && !wordTimestamps) {
-        console.log('Storing audio message with pair ID:', pairId);
-        this.pendingAudioMessages.set(pairId, processedMessage);
-        
-        // Check if we have a matching text message
-        const matchingTextMessage = this.pendingTextMessages.get(pairId);
-        if (matchingTextMessage) {
-          console.log('Found matching text message for pair ID:', pairId);
-          // Combine the messages
-          const combinedMessage: XmtpMessage = {
-            ...matchingTextMessage,
-            audioUrl: processedMessage.audioUrl,
-            id: processedMessage.id, // Use the latest message ID
-            sentAt: processedMessage.sentAt // Use the latest timestamp
-          };
-          
-          // Remove the pending messages
-          this.pendingTextMessages.delete(pairId);
-          this.pendingAudioMessages.delete(pairId);
-          
-          console.log('Returning combined message:', combinedMessage);
-          return combinedMessage;
-        } else {
-          console.log('No matching text message found yet for pair ID:', pairId);
+    return processedMessage;
+  }
+
+  // Read the tutor response carried by a message, if any
+  private getTutorResponse(message: TransportMessage): TutorResponse | null {
+    if (message.contentType?.sameAs(ContentTypeTutorResponse)) {
+      return message.content as TutorResponse;
+    }
+    
+    try {
+      if (typeof message.content === 'string') {
+        const text = message.content.trim();
+        if (text.startsWith('{') && text.endsWith('}')) {
+          return fromLegacyPayload(JSON.parse(text));
         }
-        
-        // No matching text message yet, return null and wait
         return null;
       }
+      return fromLegacyPayload(message.content);
+    } catch (e) {
+      // Not JSON or not a valid tutor response, show the message as is
+      console.error('Error parsing tutor response:', e);
+      return null;
+    }
+  }
+
+  // Process a message and run it through the pairer. Returns the messages that are ready to show.
+  private async receiveMessage(state: PersonaConversation, message: TransportMessage): Promise<XmtpMessage[]> {
+    // Remember the newest message so a reconnect can sync from there
+    if (message.sentAtNs && (state.lastSeenNs === null || message.sentAtNs > state.lastSeenNs)) {
+      state.lastSeenNs = message.sentAtNs;
+    }
+    
+    // Messages seen before are dropped by the pairer, so skip downloading their attachments again
+    if (state.messagePairer.hasSeen(message.id)) return [];
+    
+    const remoteAttachment = await this.loadRemoteAttachment(message);
+    const processedMessage = this.processMessage(state, message, remoteAttachment);
+    if (!processedMessage) return [];
+    
+    const readyMessages = state.messagePairer.add(processedMessage, Date.now());
+    if (readyMessages.length === 0) {
+      console.log(`Waiting for the other half of pair ${processedMessage.pairId}`);
+    }
+    
+    this.schedulePairingFlush(state);
+    return readyMessages;
+  }
+
+  // Schedule emitting pair halves whose partner did not arrive in time
+  private schedulePairingFlush(state: PersonaConversation) {
+    if (state.pairingTimer !== null) {
+      window.clearTimeout(state.pairingTimer);
+      state.pairingTimer = null;
+    }
+    
+    const deadline = state.messagePairer.nextDeadline();
+    if (deadline === null) return;
+    
+    state.pairingTimer = window.setTimeout(() => {
+      state.pairingTimer = null;
+      const expiredMessages = state.messagePairer.flushExpired(Date.now());
+      for (const expiredMessage of expiredMessages) {
+        console.log(`Pair ${expiredMessage.pairId} timed out, showing partial message`);
+        emitReadyMessage(this.events, expiredMessage, state.shownPartials);
+      }
+      this.schedulePairingFlush(state);
+    }, Math.max(0, deadline - Date.now()));
+  }
+
+  // Start listening for messages from a persona, by default the active one. Messages are emitted as events.
+  async startListening(personaId?: string): Promise<boolean> {
+    if (!this.transport) return false;
+    
+    let state: PersonaConversation | null = null;
+    
+    try {
+      state = this.getPersonaConversation(personaId);
+      state.isListening = true;
+      
+      // Each persona has one stream per connection, however often this is called
+      if (state.streamGeneration === this.streamGeneration) return true;
+      state.streamGeneration = this.streamGeneration;
+      
+      // Find the conversation with the persona, or create one if there is none yet
+      const conversation = await this.getOrCreatePersonaDm(state);
+      
+      // Keep the stream running in the background, resubscribing when it dies
+      this.runMessageStream(state, conversation, this.streamGeneration);
+      
+      return true;
+    } catch (error) {
+      console.error("Failed to start message streams:", error);
+      if (state) {
+        state.streamGeneration = null;
+      }
+      this.setConnectionStatus("offline");
+      this.events.emit("error", { message: "Failed to start listening for tutor messages", personaId });
+      return false;
+    }
+  }
+
+  // Stream messages from a conversation, reconnecting with exponential backoff when the stream ends
+  private async runMessageStream(state: PersonaConversation, conversation: TransportConversation, generation: number) {
+    let attempt = 0;
+    
+    while (this.transport && generation === this.streamGeneration) {
+      let stream: TransportStream | null = null;
       
-      // If it's a text message with word timestamps
-      if (wordTimestamps) {
-        console.log('Storing text message with pair ID:', pairId);
-        this.pendingTextMessages.set(pairId, processedMessage);
+      try {
+        stream = await conversation.stream();
+        this.messageStreams.push(stream);
         
-        // Check if we have a matching audio message
-        const matchingAudioMessage = this.pendingAudioMessages.get(pairId);
-        if (matchingAudioMessage) {
-          console.log('Found matching audio message for pair ID:', pairId);
-          // Combine the messages
-          const combinedMessage: XmtpMessage = {
-            ...processedMessage,
-            audioUrl: matchingAudioMessage.audioUrl,
-            id: processedMessage.id, // Use the latest message ID
-            sentAt: processedMessage.sentAt // Use the latest timestamp
-          };
-          
-          // Remove the pending messages
-          this.pendingTextMessages.delete(pairId);
-          this.pendingAudioMessages.delete(pairId);
-          
-          console.log('Returning combined message:', combinedMessage);
-          return combinedMessage;
-        } else {
-          console.log('No matching audio message found yet for pair ID:', pairId);
+        // After a reconnect, fetch whatever was sent while the stream was down
+        if (attempt > 0) {
+          await this.syncMissedMessages(state, conversation);
         }
         
-        // If this is a text-only message with word timestamps but no pair ID,
-        // just return it directly to ensure it's displayed
-        if (pairId.startsWith('text-only-')) {
-          console.log('Text-only message with no pairing needed, returning directly');
-          return processedMessage;
+        attempt = 0;
+        this.setStreamStatus(state, "live");
+        
+        for await (const message of stream) {
+          if (message) {  // Check if message is defined
+            console.log(`Received message from ${state.persona.id} stream:`, message.id);
+            await this.deliverMessage(state, message);
+          }
         }
         
-        // No matching audio message yet, return null and wait
-        return null;
+        console.warn("[XmtpService] Message stream ended");
+      } catch (error) {
+        console.error(`Error in conversation stream:`, error);
+      } finally {
+        this.messageStreams = this.messageStreams.filter(s => s !== stream);
       }
       
-      // Fallback - if we have a pair ID but don't fit into the above categories,
-      // store this message for potential future pairing but also return it to be displayed
-      console.log('Message has pair ID but does not fit specific pairing criteria, returning it directly');
-      return processedMessage;
+      // Streams closed on purpose (disconnect) belong to an older generation
+      if (!this.transport || generation !== this.streamGeneration) break;
+      
+      attempt++;
+      const delay = this.getReconnectDelay(attempt);
+      this.setStreamStatus(state, attempt > this.maxReconnectAttemptsBeforeOffline ? "offline" : "reconnecting");
+      console.log(`[XmtpService] Reconnecting message stream in ${delay}ms (attempt ${attempt})`);
+      await new Promise(resolve => window.setTimeout(resolve, delay));
     }
-    
-    // If the message doesn't have a pair ID or already has both audio and word timestamps, return it as is
-    return processedMessage;
   }
 
-  // Convert base64 to Blob
-  private base64ToBlob(base64: string, mimeType: string): Blob {
-    const byteCharacters = atob(base64);
-    const byteArrays = [];
-    
-    for (let offset = 0; offset < byteCharacters.length; offset += 512) {
-      const slice = byteCharacters.slice(offset, offset + 512);
+  // Get the delay before the next reconnect attempt, with jitter
+  private getReconnectDelay(attempt: number): number {
+    const baseDelay = Math.min(1000 * 2 ** (attempt - 1), 30000);
+    return Math.round(baseDelay * (0.8 + Math.random() * 0.4));
+  }
+
+  // Load messages sent after the last one we saw
+  private async syncMissedMessages(state: PersonaConversation, conversation: TransportConversation) {
+    try {
+      await conversation.sync();
+      const missedMessages = await conversation.messages({
+        direction: SortDirection.Ascending,
+        sentAfterNs: state.lastSeenNs ?? undefined,
+      });
+      console.log(`[XmtpService] Synced ${missedMessages.length} messages missed while reconnecting`);
       
-      const byteNumbers = new Array(slice.length);
-      for (let i = 0; i < slice.length; i++) {
-        byteNumbers[i] = slice.charCodeAt(i);
+      for (const message of missedMessages) {
+        await this.deliverMessage(state, message);
       }
-      
-      const byteArray = new Uint8Array(byteNumbers);
-      byteArrays.push(byteArray);
+    } catch (error) {
+      console.error("[XmtpService] Error syncing missed messages:", error);
     }
+  }
+
+  // Process a message and emit whatever is ready
+  private async deliverMessage(state: PersonaConversation, message: TransportMessage) {
+    for (const readyMessage of await this.receiveMessage(state, message)) {
+      console.log('Processed message, emitting:', readyMessage.id);
+      emitReadyMessage(this.events, readyMessage, state.shownPartials);
+    }
+  }
+
+  // Get the current connection status of the message stream
+  getConnectionStatus(): ConnectionStatus {
+    return this.connectionStatus;
+  }
+
+  // Add an event listener. Returns a function that removes it.
+  on<E extends TutorEventName>(event: E, listener: TutorEventListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // Remove an event listener
+  off<E extends TutorEventName>(event: E, listener: TutorEventListener<E>) {
+    this.events.off(event, listener);
+  }
+
+  // Record the status of one persona's stream. The overall status is the worst of the running streams.
+  private setStreamStatus(state: PersonaConversation, status: ConnectionStatus) {
+    state.connectionStatus = status;
+    
+    const statuses = [...this.personaConversations.values()]
+      .filter(s => s.streamGeneration === this.streamGeneration)
+      .map(s => s.connectionStatus);
     
-    return new Blob(byteArrays, { type: mimeType });
+    if (statuses.includes("offline") || statuses.length === 0) {
+      this.setConnectionStatus("offline");
+    } else if (statuses.includes("reconnecting")) {
+      this.setConnectionStatus("reconnecting");
+    } else {
+      this.setConnectionStatus("live");
+    }
   }
 
-  // Start listening for messages
-  async startMessageListener(
-    onNewMessage: (message: XmtpMessage) => void
-  ): Promise<boolean> {
-    if (!this.client) return false;
+  // Update the connection status and emit it
+  private setConnectionStatus(status: ConnectionStatus) {
+    if (this.connectionStatus === status) return;
     
-    try {
-      // List existing conversations
-      const conversations = await this.client.conversations.list();
-      
-      // Find conversation with the bot using inbox ID
-      // Need to use async/await since peerInboxId is a function that returns a Promise<string>
-      let botConversation = null;
-      for (const conv of conversations) {
-        // Check if it's a DM conversation using instanceof
-        if (conv instanceof Dm) {
-          // peerInboxId is a function that returns a Promise<string>
-          const peerInboxId = await conv.peerInboxId();
-          if (peerInboxId === this.botInboxId) {
-            botConversation = conv;
-            break;
-          }
-        }
+    console.log(`[XmtpService] Connection status: ${status}`);
+    this.connectionStatus = status;
+    this.events.emit("connectionState", status);
+  }
+
+  // Force the message streams to reconnect, e.g. when the browser comes back online
+  private restartStreams = () => {
+    if (!this.transport || this.messageStreams.length === 0) return;
+    
+    console.log("[XmtpService] Restarting message streams");
+    for (const stream of this.messageStreams) {
+      if (stream && typeof stream.return === 'function') {
+        stream.return();
+      }
+    }
+  };
+
+  // Mark the stream offline when the browser loses its network connection
+  private handleOffline = () => {
+    if (this.transport?.kind === "xmtp") {
+      for (const state of this.personaConversations.values()) {
+        state.connectionStatus = "offline";
       }
+      this.setConnectionStatus("offline");
+    }
+  };
+
+  // Sync the conversation list and every open tutor conversation with the network, delivering
+  // messages sent from other devices as events
+  async syncNow(): Promise<void> {
+    if (!this.transport || this.isSyncing) return;
+    
+    this.isSyncing = true;
+    
+    try {
+      await this.transport.syncConversations();
+      await this.denyUnknownSenders();
       
-      if (botConversation) {
-        // Stream messages for the bot conversation
-        const convStream = await botConversation.stream();
-        this.messageStreams.push(convStream);
-        
-        // Listen for messages in this conversation
-        (async () => {
-          try {
-            for await (const message of convStream) {
-              if (message) {  // Check if message is defined
-                console.log('Received message from stream:', message.id);
-                const processedMessage = this.processMessage(message);
-                if (processedMessage) {
-                  console.log('Processed message, sending to listener:', processedMessage.id);
-                  onNewMessage(processedMessage);
-                } else {
-                  console.log('Message returned null after processing (likely waiting for pairing)');
-                }
-              }
-            }
-          } catch (error) {
-            console.error(`Error in conversation stream:`, error);
-          }
-        })();
-      } else {
-        // No existing conversation with the bot, create one
-        const newConversation = await this.client.conversations.newDm(this.botInboxId);
-        
-        // Stream messages for the new conversation
-        const convStream = await newConversation.stream();
-        this.messageStreams.push(convStream);
+      for (const state of this.personaConversations.values()) {
+        // Only conversations that are being shown; the others sync when their history loads
+        if (!state.isListening || (state.lastSeenNs === null && !state.historyExhausted)) continue;
         
-        // Listen for messages in this conversation
-        (async () => {
-          try {
-            for await (const message of convStream) {
-              if (message) {  // Check if message is defined
-                console.log('Received message from stream:', message.id);
-                const processedMessage = this.processMessage(message);
-                if (processedMessage) {
-                  console.log('Processed message, sending to listener:', processedMessage.id);
-                  onNewMessage(processedMessage);
-                } else {
-                  console.log('Message returned null after processing (likely waiting for pairing)');
-                }
-              }
-            }
-          } catch (error) {
-            console.error(`Error in new conversation stream:`, error);
-          }
-        })();
+        const conversation = await this.findPersonaDm(state);
+        if (conversation) {
+          await this.syncMissedMessages(state, conversation);
+        }
       }
       
-      return true;
+      this.lastSyncedAt = new Date();
+      console.log(`[XmtpService] Synced at ${this.lastSyncedAt.toISOString()}`);
+      for (const listener of this.syncListeners) {
+        listener(this.lastSyncedAt);
+      }
     } catch (error) {
-      console.error("Failed to start message streams:", error);
+      console.error("[XmtpService] Error syncing conversations:", error);
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  // Get the time of the last successful sync
+  getLastSyncedAt(): Date | null {
+    return this.lastSyncedAt;
+  }
+
+  // Subscribe to completed syncs. Returns an unsubscribe function.
+  onSync(listener: (lastSyncedAt: Date) => void): () => void {
+    this.syncListeners.add(listener);
+    return () => {
+      this.syncListeners.delete(listener);
+    };
+  }
+
+  // Sync periodically while the tab is visible
+  private startBackgroundSync() {
+    this.stopBackgroundSync();
+    this.backgroundSyncTimer = window.setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        this.syncNow();
+      }
+    }, this.backgroundSyncIntervalMs);
+  }
+
+  // Stop the periodic sync
+  private stopBackgroundSync() {
+    if (this.backgroundSyncTimer !== null) {
+      window.clearInterval(this.backgroundSyncTimer);
+      this.backgroundSyncTimer = null;
+    }
+  }
+
+  // Sync when the tab gets focus or becomes visible again
+  private handleTabFocus = () => {
+    if (this.transport && document.visibilityState === 'visible') {
+      this.syncNow();
+    }
+  };
+
+  // Find the existing DM conversation with a persona
+  private async findPersonaDm(state: PersonaConversation): Promise<TransportConversation | null> {
+    if (!this.transport) return null;
+    
+    if (!state.dm) {
+      state.dm = await this.transport.findConversation(state.persona.inboxId);
+    }
+    
+    return state.dm;
+  }
+
+  // Get the DM conversation with a persona, creating it if there is none yet
+  private async getOrCreatePersonaDm(state: PersonaConversation): Promise<TransportConversation> {
+    if (!this.transport) {
+      throw new Error("Not connected to XMTP");
+    }
+    
+    const existing = await this.findPersonaDm(state);
+    if (existing) return existing;
+    
+    console.log(`[XmtpService] Creating conversation with persona ${state.persona.id}`);
+    state.dm = await this.transport.createConversation(state.persona.inboxId);
+    return state.dm;
+  }
+
+  // Load the most recent page of conversation history with a persona, by default the active one
+  async loadHistory(personaId?: string): Promise<XmtpMessage[]> {
+    if (!this.transport) return [];
+    
+    const state = this.getPersonaConversation(personaId);
+    
+    // Start again from the newest message
+    state.historyCursorNs = null;
+    state.historyExhausted = false;
+    
+    return this.loadHistoryPage(state);
+  }
+
+  // Load the page of history just before the oldest message loaded so far
+  async loadOlderHistory(personaId?: string): Promise<XmtpMessage[]> {
+    if (!this.hasMoreHistory(personaId)) return [];
+    
+    return this.loadHistoryPage(this.getPersonaConversation(personaId));
+  }
+
+  // Check if there is older history left to load
+  hasMoreHistory(personaId?: string): boolean {
+    if (!this.transport) return false;
+    
+    try {
+      return !this.getPersonaConversation(personaId).historyExhausted;
+    } catch {
       return false;
     }
   }
 
-  // Load conversation history with the bot
-  async loadConversationWithBot(): Promise<XmtpMessage[]> {
-    if (!this.client) return [];
+  // Load one page of history before the current cursor
+  private async loadHistoryPage(state: PersonaConversation): Promise<XmtpMessage[]> {
+    if (!this.transport || state.isLoadingHistory) return [];
+    
+    state.isLoadingHistory = true;
     
     try {
-      // List existing conversations
-      const conversations = await this.client.conversations.list();
-      
-      // Find conversation with the bot using inbox ID
-      // Need to use async/await since peerInboxId is a function that returns a Promise<string>
-      let botConversation = null;
-      for (const conv of conversations) {
-        // Check if it's a DM conversation using instanceof
-        if (conv instanceof Dm) {
-          // peerInboxId is a function that returns a Promise<string>
-          const peerInboxId = await conv.peerInboxId();
-          if (peerInboxId === this.botInboxId) {
-            botConversation = conv;
-            break;
-          }
-        }
-      }
+      const conversation = await this.findPersonaDm(state);
       
-      if (!botConversation) {
+      if (!conversation) {
+        state.historyExhausted = true;
         return [];
       }
       
-      // Load messages
-      const messages = await botConversation.messages({ limit: 30n });
+      // The first page starts from the newest message, so fetch what other devices sent first
+      if (state.historyCursorNs === null) {
+        await conversation.sync();
+      }
       
-      const processedMessages: XmtpMessage[] = [];
+      // Load messages newest first so the limit applies to the most recent ones before the cursor
+      const page = await conversation.messages({
+        limit: this.historyPageSize,
+        direction: SortDirection.Descending,
+        sentBeforeNs: state.historyCursorNs ?? undefined,
+      });
+      console.log(`[XmtpService] Loaded history page with ${page.length} messages for ${state.persona.id}`);
       
-      // First pass: process all messages and collect paired messages
-      for (const message of messages) {
-        const processedMessage = this.processMessage(message);
-        if (processedMessage && !processedMessage.pairId) {
-          // If the message doesn't have a pair ID, add it directly
-          processedMessages.push(processedMessage);
-        }
+      if (page.length < Number(this.historyPageSize)) {
+        state.historyExhausted = true;
+      }
+      if (page.length > 0) {
+        state.historyCursorNs = page[page.length - 1].sentAtNs;
       }
       
-      // Second pass: add any remaining paired messages that were successfully combined
-      for (const message of messages) {
-        const processedMessage = this.processMessage(message);
-        if (processedMessage && processedMessage.pairId) {
-          // Check if this message has both audio and word timestamps
-          if (processedMessage.audioUrl && processedMessage.wordTimestamps) {
-            // Check if we already have this message (by pair ID)
-            const existingIndex = processedMessages.findIndex(m => m.pairId === processedMessage.pairId);
-            if (existingIndex >= 0) {
-              // Replace the existing message
-              processedMessages[existingIndex] = processedMessage;
-            } else {
-              // Add as a new message
-              processedMessages.push(processedMessage);
-            }
-          }
-        }
+      // Process oldest first. A half of a pair whose partner is on an older page waits in the
+      // pairer, and is shown on its own after the timeout or combined once that page is loaded.
+      const processedMessages: XmtpMessage[] = [];
+      for (const message of [...page].reverse()) {
+        processedMessages.push(...(await this.receiveMessage(state, message)));
       }
       
       return processedMessages;
     } catch (error) {
-      console.error("Error loading conversation with bot:", error);
+      console.error("Error loading conversation with persona:", error);
+      this.events.emit("error", { message: "Failed to load the conversation history", personaId: state.persona.id });
       return [];
+    } finally {
+      state.isLoadingHistory = false;
     }
   }
 }
 
 // Export a singleton instance
-export const xmtpService = new XmtpService(); 
\ No newline at end of file
+export const xmtpService = new XmtpService();
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { ethers } from "ethers";
+import { hardhat } from "wagmi/chains";
+import { createXmtpSigner } from "./xmtpSigner";
+import { detectAccountType, isValidContractSignature } from "../silk/accountType";
+import { startHardhatNode, deployContractWallet, type HardhatNode } from "../../test/hardhatNode";
+
+describe("XMTP signer on a local hardhat chain", () => {
+  let node: HardhatNode;
+  let owner: ethers.providers.JsonRpcSigner;
+  let ownerAddress: string;
+  let walletAddress: string;
+
+  beforeAll(async () => {
+    node = await startHardhatNode();
+    owner = node.provider.getSigner(0);
+    ownerAddress = await owner.getAddress();
+    walletAddress = await deployContractWallet(owner);
+  }, 90000);
+
+  afterAll(async () => {
+    await node?.stop();
+  });
+
+  describe("detectAccountType", () => {
+    it("detects an externally owned account", async () => {
+      expect(await detectAccountType(node.provider, ownerAddress)).toBe("EOA");
+    });
+
+    it("detects a smart-contract wallet", async () => {
+      expect(await detectAccountType(node.provider, walletAddress)).toBe("SCW");
+    });
+  });
+
+  describe("createXmtpSigner", () => {
+    it("builds an EOA signer for an externally owned account", async () => {
+      const signer = await createXmtpSigner(ownerAddress, owner);
+
+      expect(signer.type).toBe("EOA");
+      expect(await signer.getIdentifier()).toEqual({ identifier: ownerAddress, identifierKind: "Ethereum" });
+    });
+
+    it("signs with the wallet as a 65 byte signature", async () => {
+      const signer = await createXmtpSigner(ownerAddress, owner);
+      const signature = await signer.signMessage("hello");
+
+      expect(signature).toHaveLength(65);
+      expect(ethers.utils.verifyMessage("hello", signature)).toBe(ownerAddress);
+    });
+
+    it("builds an SCW signer with the chain id for a smart-contract wallet", async () => {
+      const signer = await createXmtpSigner(walletAddress, node.provider.getSigner(walletAddress));
+
+      expect(signer.type).toBe("SCW");
+      if (signer.type !== "SCW") return;
+      expect(signer.getChainId()).toBe(BigInt(hardhat.id));
+      expect(await signer.getIdentifier()).toEqual({ identifier: walletAddress, identifierKind: "Ethereum" });
+    });
+
+    it("builds an EOA signer for a local key without asking the chain", async () => {
+      const wallet = ethers.Wallet.createRandom();
+      const signer = await createXmtpSigner(wallet.address, wallet);
+
+      expect(signer.type).toBe("EOA");
+    });
+
+    it("fails for a signer that is not connected to a chain", async () => {
+      const voidSigner = new ethers.VoidSigner(ownerAddress);
+
+      await expect(createXmtpSigner(ownerAddress, voidSigner)).rejects.toThrow("not connected to a chain");
+    });
+  });
+
+  describe("isValidContractSignature", () => {
+    it("accepts a signature the wallet contract approves", async () => {
+      expect(await isValidContractSignature(node.provider, walletAddress, "hello", "0x1234")).toBe(true);
+    });
+
+    it("rejects an address without a wallet contract", async () => {
+      const signature = await owner.signMessage("hello");
+      const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      try {
+        expect(await isValidContractSignature(node.provider, ownerAddress, "hello", signature)).toBe(false);
+        expect(consoleError).toHaveBeenCalledWith("[AccountType] Error checking the contract signature:", expect.anything());
+      } finally {
+        consoleError.mockRestore();
+      }
+    });
+  });
+});
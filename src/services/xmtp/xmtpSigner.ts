@@ -0,0 +1,58 @@
+import { type Signer } from "@xmtp/browser-sdk";
+import { ethers } from "ethers";
+import { detectAccountType } from "../silk/accountType";
+
+// Create the signer the XMTP client registers the identity with. Smart-contract wallets need an
+// SCW signer with the chain their contract lives on, or the network cannot verify their signatures.
+export const createXmtpSigner = async (userAddress: string, ethersSigner: ethers.Signer): Promise<Signer> => {
+  const getIdentifier = async () => {
+    return {
+      identifier: userAddress,
+      identifierKind: "Ethereum" as const
+    };
+  };
+
+  const signMessage = async (message: string) => {
+    try {
+      console.log("[XmtpSigner] Signing message with ethers");
+      // Use ethers for consistent signing
+      const signature = await ethersSigner.signMessage(message);
+
+      // Convert the hex signature to Uint8Array as required by XMTP
+      const signatureBytes = ethers.utils.arrayify(signature);
+      console.log("[XmtpSigner] Message signed successfully");
+
+      return signatureBytes;
+    } catch (err) {
+      console.error("[XmtpSigner] Error signing message:", err);
+      throw err;
+    }
+  };
+
+  // A private key is an externally owned account by definition
+  if (ethersSigner instanceof ethers.Wallet) {
+    return { type: "EOA", getIdentifier, signMessage };
+  }
+
+  if (!ethersSigner.provider) {
+    throw new Error("The wallet is not connected to a chain");
+  }
+
+  const accountType = await detectAccountType(ethersSigner.provider, userAddress);
+  console.log(`[XmtpSigner] Detected account type: ${accountType}`);
+
+  if (accountType === "EOA") {
+    return { type: "EOA", getIdentifier, signMessage };
+  }
+
+  // The client reads the chain id synchronously, so it is looked up once here
+  const chainId = BigInt(await ethersSigner.getChainId());
+  console.log(`[XmtpSigner] Smart-contract wallet on chain ${chainId}`);
+
+  return {
+    type: "SCW",
+    getIdentifier,
+    signMessage,
+    getChainId: () => chainId,
+  };
+};
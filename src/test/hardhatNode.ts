@@ -0,0 +1,63 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import path from "node:path";
+import { ethers } from "ethers";
+import { hardhat } from "wagmi/chains";
+
+// A hardhat node on the local chain from the wagmi config, started for a test file
+export interface HardhatNode {
+  provider: ethers.providers.JsonRpcProvider;
+  stop: () => Promise<void>;
+}
+
+// Start a hardhat node and wait until it answers. Rejects if it does not start within the timeout.
+export const startHardhatNode = (timeoutMs: number = 60000): Promise<HardhatNode> => {
+  const rpcUrl = hardhat.rpcUrls.default.http[0];
+  const port = new URL(rpcUrl).port;
+  const child: ChildProcess = spawn(
+    path.resolve("node_modules/.bin/hardhat"),
+    ["node", "--config", path.resolve("hardhat.config.cjs"), "--port", port],
+    { stdio: ["ignore", "pipe", "pipe"] }
+  );
+
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      if (child.exitCode !== null) return resolve();
+      child.once("exit", () => resolve());
+      child.kill();
+    });
+
+  return new Promise((resolve, reject) => {
+    let output = "";
+    const timer = setTimeout(() => {
+      stop();
+      reject(new Error(`Hardhat node did not start in time:\n${output}`));
+    }, timeoutMs);
+
+    child.stdout?.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes("Started HTTP")) {
+        clearTimeout(timer);
+        resolve({ provider: new ethers.providers.JsonRpcProvider(rpcUrl), stop });
+      }
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+    child.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`Hardhat node exited with code ${code}:\n${output}`));
+    });
+  });
+};
+
+// A minimal smart-contract wallet: isValidSignature accepts every signature (EIP-1271 magic value).
+// Runtime: PUSH4 0x1626ba7e PUSH1 0xe0 SHL PUSH1 0 MSTORE PUSH1 0x20 PUSH1 0 RETURN,
+// prefixed with init code that copies the 16 runtime bytes from offset 11 and returns them.
+const ACCEPT_ALL_WALLET_BYTECODE = "0x601080600b6000396000f3" + "631626ba7e60e01b60005260206000f3";
+
+// Deploy the smart-contract wallet and return its address
+export const deployContractWallet = async (deployer: ethers.Signer): Promise<string> => {
+  const transaction = await deployer.sendTransaction({ data: ACCEPT_ALL_WALLET_BYTECODE });
+  const receipt = await transaction.wait();
+  return receipt.contractAddress;
+};
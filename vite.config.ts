@@ -1,15 +1,97 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import tailwindcss from '@tailwindcss/vite'
 import react from '@vitejs/plugin-react'
 import * as dotenv from 'dotenv'
 import path from 'path'
+import fs from 'fs'
 dotenv.config()
 
+// Stores encrypted remote attachments on disk during development, standing in for a real upload backend
+const attachmentStore = (): Plugin => {
+  const storeDir = path.resolve(__dirname, '.attachments')
+  // Larger than any recording the app sends, small enough to not fill the disk
+  const maxAttachmentBytes = 25 * 1024 * 1024
+
+  return {
+    name: 'scarlett-attachment-store',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__attachments', (req, res) => {
+        // The app uploads from its own origin to the tunnel's, and the bot downloads from anywhere
+        res.setHeader('Access-Control-Allow-Origin', '*')
+
+        // An octet-stream PUT is not a simple request, so the browser asks first
+        if (req.method === 'OPTIONS') {
+          res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, OPTIONS')
+          res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+          res.setHeader('Access-Control-Max-Age', '600')
+          res.statusCode = 204
+          res.end()
+          return
+        }
+
+        const key = path.basename(decodeURIComponent((req.url || '').split('?')[0]))
+        if (!key) {
+          res.statusCode = 400
+          res.end()
+          return
+        }
+        const filePath = path.join(storeDir, key)
+
+        if (req.method === 'PUT') {
+          const declaredLength = Number(req.headers['content-length'])
+          if (declaredLength > maxAttachmentBytes) {
+            res.statusCode = 413
+            res.end()
+            return
+          }
+
+          fs.mkdirSync(storeDir, { recursive: true })
+          const chunks: Buffer[] = []
+          let receivedBytes = 0
+          let tooLarge = false
+          req.on('data', (chunk: Buffer) => {
+            if (tooLarge) return
+            receivedBytes += chunk.length
+            // The length header can be missing or wrong, so the body is counted as well
+            if (receivedBytes > maxAttachmentBytes) {
+              tooLarge = true
+              chunks.length = 0
+              res.statusCode = 413
+              res.end()
+              req.destroy()
+              return
+            }
+            chunks.push(chunk)
+          })
+          req.on('end', () => {
+            if (tooLarge) return
+            fs.writeFileSync(filePath, Buffer.concat(chunks))
+            res.statusCode = 201
+            res.end()
+          })
+          return
+        }
+
+        if (req.method === 'GET' && fs.existsSync(filePath)) {
+          res.setHeader('Content-Type', 'application/octet-stream')
+          fs.createReadStream(filePath).pipe(res)
+          return
+        }
+
+        res.statusCode = 404
+        res.end()
+      })
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
+    attachmentStore(),
   ],
   optimizeDeps: {
     exclude: ["@xmtp/wasm-bindings", "@xmtp/browser-sdk"],